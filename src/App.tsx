@@ -50,6 +50,16 @@ function App() {
                 >
                   📥 Inbox
                 </Link>
+                <Link
+                  to="/settings"
+                  className={`rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
+                    location.pathname === '/settings'
+                      ? 'bg-[#4B2FFF] text-white'
+                      : 'text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100'
+                  }`}
+                >
+                  ⚙️ Settings
+                </Link>
               </div>
             </div>
           </div>
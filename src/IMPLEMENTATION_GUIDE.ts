@@ -47,16 +47,27 @@
  * - **Tags**: #work, #urgent, tag: personal, shopping
  *
  * Main functions:
- * - parseTaskInput(input: string): ParsedTask
- *   └─ Parses all components from raw input
- * - formatDateForDisplay(date: Date): string
+ * - parseTaskInput(input: string, options?: ParseOptions): ParsedTask
+ *   └─ Parses all components from raw input; `tokens` lists the consumed
+ *      spans (kind, start/end offsets, normalized value) and
+ *      `options.literalRanges` keeps chosen spans as plain title text
+ *   └─ Ambiguous tokens ("sun screen", "wed dress", "may 5", "call at 5") get a
+ *      confidence below 1 and `alternatives` (other readings, or keeping the
+ *      text in the title); `confidence` on the result is the lowest of them
+ * - formatDateForDisplay(date: Date, options?: DateOptions): string
  *   └─ Formats dates for UI display
- * - getDateSuggestions(input: string): DateSuggestion[]
- *   └─ Provides date suggestions based on partial input
- * - getTimeSuggestions(input: string): TimeSuggestion[]
- *   └─ Returns common time suggestions
+ * - getDateSuggestions(token: string, options?: DateOptions): DateSuggestion[]
+ *   └─ Date suggestions matching the token under the caret, or all of them
+ *
+ * DateOptions ({ now, timeZone, weekStartsOn, locale }) pin the clock: relative dates
+ * resolve against `now` on the calendar day it falls on in the IANA `timeZone`,
+ * so results do not depend on the wall clock or the machine's zone. Dates are
+ * returned as local midnight of that calendar day. `locale` picks the words
+ * dates and times are read and shown in (see Locales below).
+ * - getTimeSuggestions(token: string): TimeSuggestion[]
+ *   └─ Common times matching the token under the caret, or all of them
  * - getCommonTags(): TagSuggestion[]
- *   └─ Returns frequently used tags
+ *   └─ Returns starter tags, suggested until the user's own tags exist
  *
  * Date patterns supported:
  * ├─ Absolute: "2025-01-15", "Jan 15", "January 15"
@@ -69,6 +80,98 @@
  * ├─ 12-hour: "2:30pm", "9am"
  * └─ Words: "morning" (9am), "afternoon" (2pm), "evening" (6pm), "night" (9pm)
  *
+ * Recurrence patterns supported (stored as a RecurrenceRule):
+ * ├─ Days: "every monday", "every tue and thu", "weekdays", "weekends"
+ * ├─ Units: "daily", "every 2 weeks", "every month on the 1st", "every 15th"
+ * └─ End: "... until march 1", "... for 5 times"
+ *
+ * Priority markers (high/medium/low):
+ * ├─ Named: "!high", "!medium", "!low", "!urgent" (or "!h", "!m", "!l")
+ * ├─ Bangs: "!!!" high, "!!" medium, "!" low
+ * └─ Levels: "p1", "p2", "p3", "urgent" (a guess unless it ends the input)
+ *
+ * Target lists (resolved fuzzily, case-insensitively against TaskList names):
+ * ├─ Single word: "+Groceries", "@Work"
+ * └─ Quoted: +"Side project", @"Side project"
+ *
+ * Mentions (options.mentions; Settings → People & Contexts, src/hooks/use-mentions.ts):
+ * ├─ People: "@alice" → assignees, when Alice is registered
+ * ├─ Contexts: "@home", "@phone" → contexts (home, office, errands, phone,
+ * │  computer and anywhere are known by default)
+ * └─ Any other "@name" stays a list; quick add offers to register it instead
+ *
+ * Links (stored as links, src/utils/task-links.ts; labelled offline, never fetched):
+ * ├─ URLs: "https://github.com/org/repo/pull/42" → "PR #42" in the title;
+ * │  issues, GitLab MRs, Jira keys and Google Docs get labels too, others their host
+ * ├─ Emails: "sam@example.com", "mailto:…" (not read as an @mention)
+ * └─ Phones: "555-1234", "+1 555 123 4567", "(030) 1234-5678", "tel:+4930123456"
+ *
+ * Estimates (stored as estimateMinutes, totalled per TaskList group):
+ * └─ "~2h", "for 15m", "90 minutes", "~1h 30m" ("in 2 hours" stays a date)
+ *
+ * Date formats:
+ * ├─ Relative: "yesterday", "today", "tomorrow", "day after tomorrow", "in 3 days", "2 days ago"
+ * ├─ Weeks: "monday", "next friday", "last friday", "this weekend", "next week", "end of week"
+ * ├─ Months: "end of month", "next quarter", "the 15th", "Jan 15", "March 3rd, 2027"
+ * ├─ Numeric: "2026-11-02", "03/04/2027" (the locale's order unless dateOrder is set)
+ * ├─ Business days: "in 3 business days", "next workday", "2 weekdays after the 10th"
+ * └─ Holidays: "christmas", "thanksgiving", "new year's eve" (the next one to come)
+ *
+ * Locales (options.locale; Settings → Language & Calendar, src/utils/locales.ts):
+ * ├─ Packs in src/utils/locale-packs/: en (default), de, es, fr
+ * ├─ German: "morgen um 15 Uhr", "bis Freitag", "am 3. November", "heute Abend"
+ * ├─ Spanish: "mañana por la mañana", "el próximo lunes", "15 de marzo", "a las 9"
+ * ├─ French: "demain à 15h", "lundi prochain", "1er avril", "dans 2 semaines"
+ * ├─ Numeric dates follow the pack (DD/MM outside English); dates are shown with its
+ * │  Intl locale and autocomplete offers its phrases
+ * └─ Tags, priority, lists, ranges, recurrence, reminders and estimates stay as in English
+ *
+ * Work week and holidays (options.workWeek / options.holidays; Settings → Language & Calendar,
+ * src/hooks/use-preferences.ts):
+ * ├─ Work week: Monday to Friday unless configured (0 = Sunday)
+ * ├─ Calendars: bundled JSON rule sets in src/utils/holiday-calendars/ (us, gb, de),
+ * │  US by default; fixed dates, nth weekdays ("4th Thursday") or days from Easter
+ * └─ Custom holidays are added to the calendar; days off are skipped by business days
+ *
+ * Scheduled dates vs deadlines (overdue is based on the deadline only):
+ * ├─ Scheduled: "monday", "on friday", "start monday", "starting march 3"
+ * └─ Deadline: "due friday", "by april 15", "deadline: monday", "before monday"
+ *
+ * Times (start/end/allDay on the task; `time` is the HH:MM view of start):
+ * ├─ Points: "at 2pm", "9:30am", "morning", "in 2 hours" (also sets the day)
+ * ├─ Ranges: "2-3pm", "11:30-1pm", "from 9 to 11", "10pm-1am" (ends next day)
+ * └─ A time with no day ("call at 5") is for today; no time means all-day
+ *
+ * Reminders (src/utils/reminder-scheduler.ts, fired by src/hooks/use-reminders.ts on Home
+ * and Inbox; notifications, toasts when denied):
+ * ├─ Offsets: "remind me 1h before", "remind me 2 days early" ("remind me" = at start,
+ * │  or at 9:00 on the task's day when it has no time)
+ * ├─ Clock times: "remind me at 4pm" (on the task's day)
+ * └─ Rescheduled with the task's date, cancelled when the task is completed
+ *
+ * Shortcuts (options.shortcuts; managed on the Settings page, src/hooks/use-shortcuts.ts):
+ * ├─ Expansions: "standup" → "Standup weekdays 9:30 #work +Team", ";;gro" → "+Groceries #shopping"
+ * ├─ Keywords: "eod" → { date: 'today', time: '17:00' }, "asap" → { priority: 'high' }
+ * └─ Applied before the built-in rules; typed text overrides them ("eod friday" = friday 17:00)
+ *
+ * Work already done (completedAt on the result; added completed, as toggleTask would):
+ * ├─ Prefix: "done: called the bank yesterday 3pm", "did: …", "✅ …" (or options.completed /
+ * │  the "Already done" toggle); completedAt is the moment named, or now
+ * ├─ Past dates: "yesterday", "last friday", "3 days ago", "2 hours ago" (any task)
+ * └─ In done entries "friday", "the 15th" and "march 3" mean the last one, not the next
+ *
+ * Inline subtasks (subtasks on the result; added as tasks with parentId):
+ * ├─ "Plan trip friday #travel: book flights; reserve hotel; renew passport"
+ * ├─ Children follow the first ": " and are split by ";" (needs at least one)
+ * ├─ Each takes the parent's day and tags unless it names its own ("call hotel 3pm"
+ * │  keeps the parent's day at 3pm); inheritFromParent re-applies after edits
+ * └─ QuickAddInput shows them as a tree under the title
+ *
+ * Plain text (kept in the title exactly as typed):
+ * ├─ Quotes: "Read 'Tomorrow and Tomorrow' essay" (quotes stay in the title)
+ * ├─ Backslash: "Fix \#123 regression" (the backslash is dropped)
+ * └─ options.plainText / the "Treat as plain text" toggle skips parsing entirely
+ *
  * Tag formats:
  * ├─ Hashtags: "Review report #work #urgent"
  * └─ Tag syntax: "Review report tag: work, urgent"
@@ -89,6 +192,11 @@
  * Features:
  * ✓ Real-time parsing as user types
  * ✓ Task title extraction after parsing
+ * ✓ Inline highlighting of recognized dates, times and tags
+ * ✓ Clickable token chips to un-parse a token back into the title
+ * ✓ Caret-aware completions (src/utils/autocomplete.ts): "tom" → tomorrow,
+ *   "nex fr" → next friday, "#wo" → #work, "+gro" → +Groceries, "!h" → !high;
+ *   ↑/↓ to move, Tab (or Enter after moving) to accept, Esc to hide
  * ✓ Interactive date picker with 4 quick suggestions
  * ✓ Interactive time picker with common times
  * ✓ Tag manager with common tags + custom tags
@@ -152,8 +260,10 @@
  * ✓ List view without grouping
  * ✓ Filter by completion status
  * ✓ Tag filter sidebar
+ * ✓ Context (📍 @home) and assignee (👤 @alice) filters
  * ✓ Checkbox toggle for completion
- * ✓ Task metadata display (date, time, tags)
+ * ✓ Task metadata display (date, time, tags, contexts, assignees)
+ * ✓ Link chips (🔗 URL, ✉️ email, 📞 phone) that open the link
  * ✓ Delete button with confirmation
  * ✓ Responsive grid layout
  * ✓ Dark mode support
@@ -169,11 +279,11 @@
  * - loaded: boolean
  *   └─ Whether localStorage has been loaded
  * - addTask(parsed: ParsedTask): Task
- *   └─ Add new task and return with ID
+ *   └─ Add new task and return with ID; its subtasks are added after it with parentId
  * - updateTask(id: string, updates: Partial<Task>): void
  *   └─ Update specific task properties
  * - deleteTask(id: string): void
- *   └─ Delete task by ID
+ *   └─ Delete task by ID, with its subtasks
  * - toggleTask(id: string): void
  *   └─ Toggle task completion status
  * - getTodaysTasks(): Task[]
@@ -186,6 +296,31 @@
  *   └─ Filter tasks by tag
  * - getAllTags(): string[]
  *   └─ Get all unique tags sorted
+ * - getTagSuggestions(title: string, selected?: string[]): TagSuggestion[]
+ *   └─ Tags ranked by use (recent uses count more), boosted when they go with
+ *      similar titles or the selected tags (src/utils/tag-suggestions.ts);
+ *      the common tags only while no task has tags yet
+ * - runCommand(action: SlashCommandAction): void
+ *   └─ Carry out a confirmed slash command with the mutations above
+ *
+ * Search (src/utils/search-query.ts, SearchBar on Home and Inbox):
+ * ├─ Text: bare words and "exact phrases" search titles and descriptions
+ * ├─ Fields: tag:work is:open|done|overdue|recurring has:deadline list:Groceries priority:high
+ * ├─ Dates: due:<friday date:tomorrow due:<="end of month" (quick-add date vocabulary)
+ * └─ Negation: -tag:someday; all terms must match
+ *
+ * Batch capture (src/utils/batch-capture.ts, BatchPreview in QuickAddInput):
+ * ├─ Pasting several lines parses each one as its own task
+ * ├─ Markdown bullets, numbers and "- [ ]" checkboxes are stripped
+ * ├─ Ticked "- [x]" lines and headings ("Action items:") start unselected
+ * └─ The preview table edits each row's title, date, tags and list before adding
+ *
+ * Slash commands (src/utils/slash-commands.ts, CommandPreview in QuickAddInput on Inbox):
+ * ├─ /done buy milk, /delete report: the best fuzzy title match (open tasks for /done)
+ * ├─ /move report +Work (creates the list when new), /tag report #urgent #q3
+ * ├─ /snooze report 2d: 30m, 2h, 2d, 1w later, or to a date ("/snooze report friday")
+ * ├─ /list new Travel creates a list
+ * └─ The preview names the task acted on and other matches; Enter runs it
  *
  * Storage:
  * ├─ Key: 'notodo:tasks'
@@ -279,6 +414,11 @@
  * ✓ Efficient grouping: Single pass through tasks
  * ✓ localStorage: Async persistence doesn't block UI
  * ✓ Tree shaking: Unused regex patterns eliminated
+ * ✓ Parsing: one left-to-right pass over the input's tokens, where the first grammar
+ *   rule that reads a span at a token consumes exactly that span; patterns are sticky
+ *   and compiled once per locale pack, holiday list and shortcut list
+ * ✓ Benchmark: runParserBenchmark() times 10k generated inputs and every keystroke of
+ *   200 of them (src/utils/__tests__/natural-language-parser.bench.ts)
  * ✓ Bundle size: ~300KB gzipped (full React app)
  *
  * ## Testing
@@ -286,8 +426,9 @@
  *
  * Test file: src/utils/__tests__/natural-language-parser.test.ts
  *
- * Run in browser console:
+ * Run in browser console (registered by src/main.tsx in development):
  * > runParserTests()
+ * > runParserBenchmark()
  *
  * Test coverage:
  * - 7 comprehensive test cases
@@ -0,0 +1,198 @@
+/**
+ * Batch Preview Component
+ * Reviews tasks captured from pasted multi-line text before they are added,
+ * with each row's title, date, tags and list editable
+ */
+
+import { useState } from 'react'
+import { buildSchedule, inheritFromParent, type ParsedTask } from '@/utils/natural-language-parser'
+import type { BatchItem } from '@/utils/batch-capture'
+import type { TaskList } from '@/hooks/use-tasks'
+
+export interface BatchPreviewProps {
+  items: BatchItem[]
+  lists?: TaskList[]
+  onConfirm: (tasks: ParsedTask[]) => void
+  onCancel: () => void
+}
+
+interface BatchRow {
+  include: boolean
+  title: string
+  /** YYYY-MM-DD value of the date input */
+  date: string
+  /** Comma-separated tags as typed */
+  tags: string
+  list: string
+  parsed: ParsedTask
+}
+
+/**
+ * Local YYYY-MM-DD value of a date input
+ */
+function toInputDate(date: Date | null): string {
+  if (!date) return ''
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function fromInputDate(value: string): Date | null {
+  if (!value) return null
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+function toRow(item: BatchItem): BatchRow {
+  return {
+    // Ticked checkboxes and headings are listed but left out unless picked
+    include: !item.checked && !item.heading,
+    title: item.parsed.title,
+    date: toInputDate(item.parsed.scheduledDate),
+    tags: item.parsed.tags.join(', '),
+    list: item.parsed.list ?? '',
+    parsed: item.parsed,
+  }
+}
+
+/**
+ * The task a row stands for; a parsed time range survives unless the date was changed.
+ * Inline subtasks follow the row's edited date and tags where they took the parent's.
+ */
+function toTask(row: BatchRow): ParsedTask {
+  const { parsed } = row
+  const scheduledDate = fromInputDate(row.date)
+  const day = scheduledDate ?? parsed.deadline
+  const schedule =
+    row.date === toInputDate(parsed.scheduledDate) ? parsed : buildSchedule(day, parsed.time)
+
+  const task: ParsedTask = {
+    ...parsed,
+    title: row.title.trim() || parsed.title,
+    date: day,
+    scheduledDate,
+    start: schedule.start,
+    end: schedule.end,
+    allDay: schedule.allDay,
+    time: schedule.time,
+    tags: row.tags
+      .split(/[,\s]+/)
+      .map((tag) => tag.replace(/^#/, '').toLowerCase())
+      .filter(Boolean),
+    list: row.list.trim() || null,
+  }
+  return { ...task, subtasks: parsed.subtasks.map((subtask) => inheritFromParent(subtask, task)) }
+}
+
+const CELL_INPUT =
+  'w-full rounded border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] dark:border-gray-700 dark:bg-gray-800 dark:text-white'
+
+export function BatchPreview({ items, lists = [], onConfirm, onCancel }: BatchPreviewProps) {
+  const [rows, setRows] = useState<BatchRow[]>(() => items.map(toRow))
+
+  const updateRow = (index: number, changes: Partial<BatchRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const included = rows.filter((row) => row.include)
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 bg-gray-50 p-4 dark:border-gray-700 dark:bg-gray-900">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+          📋 {rows.length} lines pasted
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Fix anything the parser got wrong, then add them all at once
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs text-gray-600 dark:text-gray-400">
+            <tr>
+              <th className="w-8 p-1" aria-label="Include" />
+              <th className="p-1">Task</th>
+              <th className="w-40 p-1">Date</th>
+              <th className="w-40 p-1">Tags</th>
+              <th className="w-36 p-1">List</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className={row.include ? '' : 'opacity-50'}>
+                <td className="p-1">
+                  <input
+                    type="checkbox"
+                    checked={row.include}
+                    onChange={(e) => updateRow(index, { include: e.target.checked })}
+                    aria-label={`Add "${row.title}"`}
+                    className="rounded border-gray-300 text-[#4B2FFF] focus:ring-[#4B2FFF]"
+                  />
+                </td>
+                <td className="p-1">
+                  <input
+                    type="text"
+                    value={row.title}
+                    onChange={(e) => updateRow(index, { title: e.target.value })}
+                    className={CELL_INPUT}
+                  />
+                </td>
+                <td className="p-1">
+                  <input
+                    type="date"
+                    value={row.date}
+                    onChange={(e) => updateRow(index, { date: e.target.value })}
+                    className={CELL_INPUT}
+                  />
+                </td>
+                <td className="p-1">
+                  <input
+                    type="text"
+                    value={row.tags}
+                    onChange={(e) => updateRow(index, { tags: e.target.value })}
+                    placeholder="work, urgent"
+                    className={CELL_INPUT}
+                  />
+                </td>
+                <td className="p-1">
+                  <input
+                    type="text"
+                    value={row.list}
+                    onChange={(e) => updateRow(index, { list: e.target.value })}
+                    list="batch-preview-lists"
+                    placeholder="Inbox"
+                    className={CELL_INPUT}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <datalist id="batch-preview-lists">
+          {lists.map((list) => (
+            <option key={list.id} value={list.name} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onConfirm(included.map(toTask))}
+          disabled={included.length === 0}
+          className="rounded-lg bg-[#4B2FFF] px-4 py-2 text-sm font-medium text-white hover:bg-[#3a21cc] disabled:opacity-50"
+        >
+          Add {included.length} {included.length === 1 ? 'task' : 'tasks'}
+        </button>
+      </div>
+    </div>
+  )
+}
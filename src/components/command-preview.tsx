@@ -0,0 +1,62 @@
+/**
+ * Command Preview Component
+ * What a quick-add slash command ("/done buy milk") is about to do, shown for
+ * confirmation before it runs, or why it cannot run yet
+ */
+
+import { SLASH_COMMANDS, describeSlashCommand, type SlashCommand } from '@/utils/slash-commands'
+
+export interface CommandPreviewProps {
+  command: SlashCommand
+  /** Locale pack dates are shown in, English by default */
+  locale?: string
+}
+
+// Other matches listed under the preview, to show when the query needs narrowing
+const OTHER_MATCH_LIMIT = 3
+
+export function CommandPreview({ command, locale }: CommandPreviewProps) {
+  const { name, action, error, otherMatches } = command
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-200 bg-gray-50 p-4 dark:border-gray-700 dark:bg-gray-900">
+      <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">
+        ⌘ Command <span className="font-normal">(Enter to confirm)</span>
+      </label>
+
+      {action && (
+        <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+          {describeSlashCommand(action, { locale })}
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">⚠️ {error}</p>}
+
+      {otherMatches.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Also matches{' '}
+          {otherMatches
+            .slice(0, OTHER_MATCH_LIMIT)
+            .map((task) => `"${task.title}"`)
+            .join(', ')}
+          {otherMatches.length > OTHER_MATCH_LIMIT &&
+            ` and ${otherMatches.length - OTHER_MATCH_LIMIT} more`}
+          ; type more of the name to pick another
+        </p>
+      )}
+
+      {/* Without a known command, list them all */}
+      {!name && (
+        <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+          {SLASH_COMMANDS.map((slashCommand) => (
+            <li key={slashCommand.name}>
+              <code className="rounded bg-gray-200 px-1 dark:bg-gray-800">
+                {slashCommand.usage}
+              </code>{' '}
+              {slashCommand.description}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -10,3 +10,8 @@ export { ErrorBoundary } from './error-boundary'
 export { VibeStackBadge } from './vibestack-badge'
 export { MoveToListModal, type MoveToListModalProps } from './move-to-list-modal'
 export { TaskDetailModal, type TaskDetailModalProps } from './task-detail-modal'
+export { SearchBar, type SearchBarProps } from './search-bar'
+export { ReminderToasts, type ReminderToastsProps } from './reminder-toasts'
+export { BatchPreview, type BatchPreviewProps } from './batch-preview'
+export { LinkChip, type LinkChipProps } from './link-chip'
+export { CommandPreview, type CommandPreviewProps } from './command-preview'
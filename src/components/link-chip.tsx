@@ -0,0 +1,47 @@
+/**
+ * Link Chip Component
+ * A task's URL, email address or phone number as a clickable chip showing its
+ * short label, with the full link on hover
+ */
+
+import type { TaskLink, TaskLinkKind } from '@/utils/task-links'
+
+export interface LinkChipProps {
+  link: TaskLink
+  /** Remove the link from the task; no remove button when omitted */
+  onRemove?: () => void
+}
+
+const LINK_ICONS: Record<TaskLinkKind, string> = {
+  url: '🔗',
+  email: '✉️',
+  phone: '📞',
+}
+
+export function LinkChip({ link, onRemove }: LinkChipProps) {
+  return (
+    <span className="inline-flex items-center gap-1 rounded-full bg-sky-100 px-2 py-0.5 text-xs font-medium text-sky-700 dark:bg-sky-900 dark:text-sky-200">
+      <a
+        href={link.href}
+        target={link.kind === 'url' ? '_blank' : undefined}
+        rel="noopener noreferrer"
+        title={link.text}
+        onClick={(e) => e.stopPropagation()}
+        className="hover:underline"
+      >
+        <span className="mr-1">{LINK_ICONS[link.kind]}</span>
+        {link.label}
+      </a>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="ml-1 text-sky-600 hover:text-sky-800 dark:text-sky-300 dark:hover:text-sky-100"
+          aria-label={`Remove link ${link.label}`}
+        >
+          ✕
+        </button>
+      )}
+    </span>
+  )
+}
@@ -15,6 +15,8 @@ const DEMO_INPUTS = [
   'today at 9:30am #urgent',
   'Write documentation #work #documentation',
   'Exercise fri afternoon #health',
+  'Pay rent every month on the 1st #home',
+  'Standup weekdays at 9:30 #work',
 ]
 
 export function ParserDemo() {
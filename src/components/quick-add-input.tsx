@@ -1,58 +1,302 @@
 /**
  * Quick-Add Task Input Component
  * Provides rapid task capture with natural language parsing
- * Includes suggestions for dates, times, and tags
+ * Includes suggestions for dates, times, tags, priorities, and target lists, and
+ * completes the token under the caret as the user types. Input starting with "/"
+ * is a command on existing tasks ("/done buy milk"), previewed before it runs.
+ * "Plan trip: book flights; reserve hotel" adds a task with subtasks, shown as a tree.
  */
 
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useMemo } from 'react'
 import {
+  buildSchedule,
   parseTaskInput,
   formatDateForDisplay,
+  formatEstimate,
+  formatRecurrence,
+  formatReminder,
+  formatTimeRange,
   getDateSuggestions,
   getTimeSuggestions,
-  getCommonTags,
+  inheritFromParent,
+  type DateOrder,
   type ParsedTask,
+  type ParsedToken,
+  type TokenInterpretation,
+  type ParsedTokenKind,
+  type MentionRegistry,
+  type ParseOptions,
+  type ShortcutRule,
+  type TaskPriority,
 } from '@/utils/natural-language-parser'
+import { fuzzyFind } from '@/utils/fuzzy-match'
+import {
+  applyCompletion,
+  getCompletions,
+  getWordAtCaret,
+  type Completion,
+} from '@/utils/autocomplete'
+import { findListByName, type Task, type TaskList } from '@/hooks/use-tasks'
+import { suggestTags, type TagSuggestion } from '@/utils/tag-suggestions'
+import { isMultiLine, parseBatchInput, type BatchItem } from '@/utils/batch-capture'
+import type { HolidayRule } from '@/utils/holidays'
+import { isSlashCommand, parseSlashCommand, type SlashCommandAction } from '@/utils/slash-commands'
+import { BatchPreview } from './batch-preview'
+import { CommandPreview } from './command-preview'
+import { LinkChip } from './link-chip'
 
 export interface QuickAddInputProps {
   onTaskAdd?: (task: ParsedTask) => void
   placeholder?: string
   autoFocus?: boolean
+  lists?: TaskList[]
+  onCreateList?: (name: string) => TaskList
+  /** Locale pack dates and times are read and shown in, English by default */
+  locale?: string
+  /** How numeric dates like 03/04/2027 are read, the locale's order by default */
+  dateOrder?: DateOrder
+  /** IANA time zone that decides what "today" is, the system's by default */
+  timeZone?: string
+  /** First day of the week for "next week" (0 = Sunday), Monday by default */
+  weekStartsOn?: number
+  /** User-defined shortcuts, expanded before the built-in rules */
+  shortcuts?: ShortcutRule[]
+  /** Working days for "in 3 business days", Monday to Friday by default */
+  workWeek?: number[]
+  /** Holidays that can be named and are skipped as days off, the US calendar by default */
+  holidays?: HolidayRule[]
+  /** People and contexts that "@name" can mention; other names are lists */
+  mentions?: MentionRegistry
+  /** Register an unknown "@name" as a person or context */
+  onAddMention?: (kind: keyof MentionRegistry, name: string) => void
+  /** Ranked tag suggestions for the title being typed; common tags when omitted */
+  getTagSuggestions?: (title: string, selected: string[]) => TagSuggestion[]
+  /** Tasks that slash commands ("/done buy milk") can act on */
+  tasks?: Task[]
+  /** Run a confirmed slash command; without it, input starting with "/" is a task */
+  onCommand?: (action: SlashCommandAction) => void
+}
+
+// Inline highlight colors for recognized tokens, keyed by token kind
+const TOKEN_STYLES: Record<ParsedTokenKind, { icon: string; highlight: string }> = {
+  date: { icon: '📅', highlight: 'bg-blue-100 dark:bg-blue-900' },
+  deadline: { icon: '⏰', highlight: 'bg-rose-100 dark:bg-rose-900' },
+  time: { icon: '🕐', highlight: 'bg-amber-100 dark:bg-amber-900' },
+  tag: { icon: '🏷️', highlight: 'bg-purple-100 dark:bg-purple-900' },
+  priority: { icon: '🚩', highlight: 'bg-red-100 dark:bg-red-900' },
+  list: { icon: '📋', highlight: 'bg-teal-100 dark:bg-teal-900' },
+  context: { icon: '📍', highlight: 'bg-cyan-100 dark:bg-cyan-900' },
+  assignee: { icon: '👤', highlight: 'bg-pink-100 dark:bg-pink-900' },
+  estimate: { icon: '⏱️', highlight: 'bg-orange-100 dark:bg-orange-900' },
+  recurrence: { icon: '🔄', highlight: 'bg-green-100 dark:bg-green-900' },
+  reminder: { icon: '🔔', highlight: 'bg-orange-100 dark:bg-orange-900' },
+  shortcut: { icon: '⚡', highlight: 'bg-yellow-100 dark:bg-yellow-900' },
+  link: { icon: '🔗', highlight: 'bg-sky-100 dark:bg-sky-900' },
+  done: { icon: '✅', highlight: 'bg-green-100 dark:bg-green-900' },
+  subtask: { icon: '↳', highlight: 'bg-indigo-100 dark:bg-indigo-900' },
 }
 
-export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Review report tomorrow at 2pm #work")', autoFocus = true }: QuickAddInputProps) {
+// Shared default so the parse effect does not rerun on every render
+const NO_SHORTCUTS: ShortcutRule[] = []
+
+// Tag buttons shown in the Tags panel; autocomplete after "#" searches all of them
+const TAG_PANEL_LIMIT = 8
+
+const PRIORITY_OPTIONS: Array<{ value: TaskPriority; text: string; icon: string }> = [
+  { value: 'high', text: 'High', icon: '🔴' },
+  { value: 'medium', text: 'Medium', icon: '📈' },
+  { value: 'low', text: 'Low', icon: '📊' },
+]
+
+export function QuickAddInput({
+  onTaskAdd,
+  placeholder = 'Add a task... (try "Review report tomorrow at 2pm #work")',
+  autoFocus = true,
+  lists = [],
+  onCreateList,
+  locale,
+  dateOrder,
+  timeZone,
+  weekStartsOn,
+  shortcuts = NO_SHORTCUTS,
+  workWeek,
+  holidays,
+  mentions,
+  onAddMention,
+  getTagSuggestions = (_title, selected) => suggestTags([], { selected }),
+  tasks = [],
+  onCommand,
+}: QuickAddInputProps) {
   const [input, setInput] = useState('')
   const [parsed, setParsed] = useState<ParsedTask | null>(null)
   const [showDateSuggestions, setShowDateSuggestions] = useState(false)
   const [showTimeSuggestions, setShowTimeSuggestions] = useState(false)
   const [showTagSuggestions, setShowTagSuggestions] = useState(false)
+  const [showPrioritySuggestions, setShowPrioritySuggestions] = useState(false)
+  const [showListSuggestions, setShowListSuggestions] = useState(false)
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
   const [selectedTime, setSelectedTime] = useState<string | null>(null)
   const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [selectedPriority, setSelectedPriority] = useState<TaskPriority | null>(null)
+  const [selectedList, setSelectedList] = useState<string | null>(null)
+  const [literalTokens, setLiteralTokens] = useState<ParsedToken[]>([])
+  const [settledTokens, setSettledTokens] = useState<ParsedToken[]>([])
+  const [plainText, setPlainText] = useState(false)
+  // Log the input as work already done, as a "done:" prefix does
+  const [loggedDone, setLoggedDone] = useState(false)
+  const [caret, setCaret] = useState(0)
+  const [activeCompletion, setActiveCompletion] = useState(0)
+  // Enter submits the task unless the user has moved into the completion list
+  const [completionNavigated, setCompletionNavigated] = useState(false)
+  const [dismissedInput, setDismissedInput] = useState<string | null>(null)
+  // Lines of a multi-line paste, awaiting review before they become tasks
+  const [batch, setBatch] = useState<BatchItem[] | null>(null)
+  const pendingCaretRef = useRef<number | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  const backdropRef = useRef<HTMLDivElement>(null)
   const suggestionsRef = useRef<HTMLDivElement>(null)
 
+  // How dates are read and shown, the same for every parser call below
+  const dateOptions: ParseOptions = useMemo(
+    () => ({ locale, dateOrder, timeZone, weekStartsOn, workWeek, holidays }),
+    [locale, dateOrder, timeZone, weekStartsOn, workWeek, holidays]
+  )
+
   // Parse input in real-time
   useEffect(() => {
     if (input.trim()) {
-      const parsed = parseTaskInput(input)
+      const parsed = parseTaskInput(input, {
+        ...dateOptions,
+        literalRanges: literalTokens,
+        plainText,
+        completed: loggedDone,
+        shortcuts,
+        mentions,
+      })
       setParsed(parsed)
-      setSelectedDate(parsed.date)
+      setSelectedDate(parsed.scheduledDate)
       setSelectedTime(parsed.time)
       setSelectedTags(parsed.tags)
+      setSelectedPriority(parsed.priority)
+      setSelectedList(parsed.list)
     } else {
       setParsed(null)
       setSelectedDate(null)
       setSelectedTime(null)
       setSelectedTags([])
+      setSelectedPriority(null)
+      setSelectedList(null)
     }
+  }, [input, literalTokens, dateOptions, plainText, loggedDone, shortcuts, mentions])
+
+  // Put the caret after an accepted completion once the new text is rendered
+  useEffect(() => {
+    if (pendingCaretRef.current === null || !inputRef.current) return
+    inputRef.current.setSelectionRange(pendingCaretRef.current, pendingCaretRef.current)
+    setCaret(pendingCaretRef.current)
+    pendingCaretRef.current = null
   }, [input])
 
+  // Handle input change, dropping un-parsed spans whose text was edited or shifted
+  const handleInputChange = (value: string, caretPosition = value.length) => {
+    setInput(value)
+    setCaret(caretPosition)
+    setActiveCompletion(0)
+    setCompletionNavigated(false)
+    setLiteralTokens((prev) =>
+      prev.filter((token) => value.slice(token.start, token.end) === token.text)
+    )
+    setSettledTokens((prev) =>
+      prev.filter((token) => value.slice(token.start, token.end) === token.text)
+    )
+  }
+
+  // Keep the highlight backdrop scrolled in step with the input
+  const syncBackdropScroll = () => {
+    if (backdropRef.current && inputRef.current) {
+      backdropRef.current.scrollLeft = inputRef.current.scrollLeft
+    }
+  }
+
+  // Track the caret so completions follow the token being typed
+  const handleInputSelect = () => {
+    syncBackdropScroll()
+    if (inputRef.current) setCaret(inputRef.current.selectionStart ?? input.length)
+  }
+
+  // Handle a completion: rewrite the token under the caret with it
+  const handleCompletionSelect = (completion: Completion) => {
+    const { value, caret } = applyCompletion(input, completion)
+    pendingCaretRef.current = caret
+    handleInputChange(value, caret)
+    inputRef.current?.focus()
+  }
+
+  // Arrow keys move through completions, Tab (or Enter after moving) accepts, Escape hides them
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (completions.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActiveCompletion((activeCompletion + step + completions.length) % completions.length)
+      setCompletionNavigated(true)
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && completionNavigated)) {
+      e.preventDefault()
+      handleCompletionSelect(completions[activeCompletion] ?? completions[0])
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setDismissedInput(input)
+    }
+  }
+
+  // A paste of several lines becomes a batch of tasks to review instead of one long title
+  const handleInputPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text')
+    if (!isMultiLine(text)) return
+    e.preventDefault()
+    setBatch(parseBatchInput(text, { ...dateOptions, completed: loggedDone, shortcuts, mentions }))
+  }
+
+  // Handle batch confirmation: add every reviewed task in one go
+  const handleBatchConfirm = (tasks: ParsedTask[]) => {
+    tasks.forEach((task) => onTaskAdd?.(task))
+    setBatch(null)
+    inputRef.current?.focus()
+  }
+
+  // Handle token chip click: keep the token's text in the title instead of parsing it.
+  // Only the text of a subtask is kept, so the separators of the others still parse.
+  const handleTokenUnparse = (token: ParsedToken) => {
+    let literal = token
+    if (token.kind === 'subtask') {
+      const text = token.text.slice(1).trimStart()
+      literal = { ...token, start: token.end - text.length, text }
+    }
+    setLiteralTokens((prev) => [...prev, literal])
+    inputRef.current?.focus()
+  }
+
+  // Handle a "Did you mean…" choice for an ambiguous token; the picker then hides it
+  const handleInterpretationSelect = (
+    token: ParsedToken,
+    interpretation: TokenInterpretation | null
+  ) => {
+    setSettledTokens((prev) => [...prev, token])
+    if (!interpretation) return
+    if (interpretation.value === null) {
+      handleTokenUnparse(token)
+    } else if (token.kind === 'time') {
+      setSelectedTime(interpretation.value)
+    }
+  }
+
   // Handle focus on date section
   const handleDateSectionClick = () => {
     setShowDateSuggestions(!showDateSuggestions)
     setShowTimeSuggestions(false)
     setShowTagSuggestions(false)
+    setShowPrioritySuggestions(false)
+    setShowListSuggestions(false)
   }
 
   // Handle date suggestion click
@@ -67,6 +311,25 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
     setShowTimeSuggestions(false)
   }
 
+  // Handle priority suggestion click (clicking the active priority clears it)
+  const handlePrioritySelect = (priority: TaskPriority) => {
+    setSelectedPriority(selectedPriority === priority ? null : priority)
+    setShowPrioritySuggestions(false)
+  }
+
+  // Handle list suggestion click (clicking the active list sends the task to the inbox)
+  const handleListSelect = (list: TaskList) => {
+    setSelectedList(matchedList?.id === list.id ? null : list.name)
+    setShowListSuggestions(false)
+  }
+
+  // Handle "create list" for a +List name that matches no existing list
+  const handleCreateList = () => {
+    if (!selectedList || !onCreateList) return
+    const list = onCreateList(selectedList)
+    setSelectedList(list.name)
+  }
+
   // Handle tag suggestion click
   const handleTagSelect = (tag: string) => {
     if (!selectedTags.includes(tag)) {
@@ -80,20 +343,64 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
     setSelectedTags(selectedTags.filter((t) => t !== tag))
   }
 
-  // Handle task submission
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!input.trim() || !parsed) return
+  // A slash command on existing tasks, run instead of adding a task
+  const command =
+    onCommand && isSlashCommand(input) ? parseSlashCommand(input, tasks, lists, dateOptions) : null
+
+  // The task to add: the parse with the fields changed by hand. A parsed time range
+  // survives unless the day or time was changed, and subtasks follow the parent's edits.
+  const buildTask = (parsed: ParsedTask): ParsedTask => {
+    const day = selectedDate ?? parsed.deadline
+    const schedule =
+      selectedTime === parsed.time && selectedDate?.getTime() === parsed.scheduledDate?.getTime()
+        ? parsed
+        : buildSchedule(day, selectedTime)
 
     const task: ParsedTask = {
       title: parsed.title,
-      date: selectedDate,
-      time: selectedTime,
+      date: day,
+      scheduledDate: selectedDate,
+      deadline: parsed.deadline,
+      start: schedule.start,
+      end: schedule.end,
+      allDay: schedule.allDay,
+      time: schedule.time,
       tags: selectedTags,
+      priority: selectedPriority,
+      list: matchedList?.name ?? selectedList,
+      contexts: parsed.contexts,
+      assignees: parsed.assignees,
+      estimateMinutes: parsed.estimateMinutes,
+      recurrence: parsed.recurrence,
+      reminders: parsed.reminders,
+      links: parsed.links,
+      // Work already done moves with its day and time when they are changed by hand
+      completedAt:
+        parsed.completedAt && schedule.start && schedule.start < new Date()
+          ? schedule.start
+          : parsed.completedAt,
+      subtasks: [],
+      tokens: parsed.tokens,
+      confidence: parsed.confidence,
       rawInput: input,
     }
+    return { ...task, subtasks: parsed.subtasks.map((subtask) => inheritFromParent(subtask, task)) }
+  }
+
+  // Handle task submission
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (command) {
+      if (command.action) {
+        onCommand?.(command.action)
+        setInput('')
+        setLiteralTokens([])
+      }
+      return
+    }
+    if (!input.trim() || !parsed) return
 
-    onTaskAdd?.(task)
+    onTaskAdd?.(buildTask(parsed))
 
     // Reset form
     setInput('')
@@ -101,6 +408,13 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
     setSelectedDate(null)
     setSelectedTime(null)
     setSelectedTags([])
+    setSelectedPriority(null)
+    setSelectedList(null)
+    setLiteralTokens([])
+    setSettledTokens([])
+    setPlainText(false)
+    setLoggedDone(false)
+    setDismissedInput(null)
 
     // Refocus input
     inputRef.current?.focus()
@@ -113,6 +427,8 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
         setShowDateSuggestions(false)
         setShowTimeSuggestions(false)
         setShowTagSuggestions(false)
+        setShowPrioritySuggestions(false)
+        setShowListSuggestions(false)
       }
     }
 
@@ -120,29 +436,73 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
     return () => document.removeEventListener('mousedown', handleClickOutside)
   }, [])
 
-  const dateSuggestions = getDateSuggestions(input)
-  const timeSuggestions = getTimeSuggestions(input)
-  const commonTags = getCommonTags()
+  // The date and time pickers narrow to the word being typed
+  const caretWord = getWordAtCaret(input, caret).text
+  const dateSuggestions = getDateSuggestions(caretWord, dateOptions)
+  const timeSuggestions = getTimeSuggestions(caretWord)
+  const tagSuggestions = getTagSuggestions(parsed?.title ?? '', selectedTags)
+  const matchedList = selectedList ? findListByName(lists, selectedList) : undefined
+  const subtasks = parsed && !command ? buildTask(parsed).subtasks : []
+  const completions =
+    plainText || command || input === dismissedInput
+      ? []
+      : getCompletions(input, caret, {
+          tags: tagSuggestions.map((tag) => tag.text),
+          lists: lists.map((list) => list.name),
+          ...dateOptions,
+          people: mentions?.people,
+          contexts: mentions?.contexts,
+        })
+  // Ambiguous tokens the user has not yet confirmed or re-read
+  const ambiguousTokens = (parsed?.tokens ?? []).filter(
+    (token) =>
+      token.alternatives.length > 0 &&
+      !settledTokens.some((settled) => settled.start === token.start && settled.text === token.text)
+  )
+  // A typed "@name" (not @"quoted") that no list has, offered for the mentions registry
+  const listToken = parsed?.tokens.find((token) => token.kind === 'list')
+  const mentionCandidate =
+    listToken && !matchedList && /^@[a-zA-Z][\w-]*$/.test(listToken.text)
+      ? listToken.value
+      : null
+  const listSuggestions = parsed?.list ? fuzzyFind(parsed.list, lists, (list) => list.name) : lists
 
   return (
     <div className="w-full">
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Main Input */}
         <div className="relative">
+          {/* Highlight backdrop: mirrors the input text with recognized tokens marked */}
+          <div
+            ref={backdropRef}
+            aria-hidden="true"
+            className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre rounded-lg border-2 border-transparent bg-white px-4 py-3 text-base text-gray-900 dark:bg-gray-900 dark:text-gray-100"
+          >
+            {renderHighlightedInput(input, command ? [] : (parsed?.tokens ?? []))}
+          </div>
           <input
             ref={inputRef}
             type="text"
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={(e) => handleInputChange(e.target.value, e.target.selectionStart ?? undefined)}
+            onKeyDown={handleInputKeyDown}
+            onPaste={handleInputPaste}
+            onScroll={syncBackdropScroll}
+            onSelect={handleInputSelect}
+            role="combobox"
+            aria-expanded={completions.length > 0}
+            aria-controls="quick-add-completions"
+            aria-autocomplete="list"
             placeholder={placeholder}
             autoFocus={autoFocus}
-            className="w-full rounded-lg border-2 border-gray-200 px-4 py-3 text-base transition-all placeholder:text-gray-400 focus:border-[#4B2FFF] focus:outline-none focus:ring-2 focus:ring-[#4B2FFF] focus:ring-opacity-10 dark:border-gray-700 dark:bg-gray-900 dark:placeholder:text-gray-500 dark:focus:border-[#4B2FFF]"
+            className="relative w-full rounded-lg border-2 border-gray-200 bg-transparent px-4 py-3 text-base text-transparent caret-gray-900 transition-all placeholder:text-gray-400 focus:border-[#4B2FFF] focus:outline-none focus:ring-2 focus:ring-[#4B2FFF] focus:ring-opacity-10 dark:border-gray-700 dark:caret-gray-100 dark:placeholder:text-gray-500 dark:focus:border-[#4B2FFF]"
           />
           {input && (
             <button
               type="button"
               onClick={() => {
                 setInput('')
+                setLiteralTokens([])
                 inputRef.current?.focus()
               }}
               className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
@@ -151,17 +511,229 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
               ✕
             </button>
           )}
+
+          {/* Completions for the token under the caret */}
+          {completions.length > 0 && (
+            <ul
+              id="quick-add-completions"
+              role="listbox"
+              className="absolute left-0 right-0 top-full z-10 mt-1 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-700 dark:bg-gray-800"
+            >
+              {completions.map((completion, idx) => (
+                <li
+                  key={`${completion.kind}-${completion.insertText}`}
+                  role="option"
+                  aria-selected={idx === activeCompletion}
+                  // Keep focus in the input so the caret stays put
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => handleCompletionSelect(completion)}
+                  onMouseEnter={() => setActiveCompletion(idx)}
+                  className={`flex cursor-pointer items-center gap-2 px-3 py-2 text-sm ${
+                    idx === activeCompletion
+                      ? 'bg-[#4B2FFF] text-white'
+                      : 'text-gray-900 dark:text-gray-100'
+                  }`}
+                >
+                  <span>{completion.icon}</span>
+                  <span>{completion.label}</span>
+                  {completion.detail && (
+                    <span className={`ml-auto text-xs ${idx === activeCompletion ? 'text-white/80' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {completion.detail}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
+        {/* Review of a multi-line paste */}
+        {batch && (
+          <BatchPreview
+            // A new paste starts a fresh review
+            key={batch.map((item) => item.line).join('\n')}
+            items={batch}
+            lists={lists}
+            onConfirm={handleBatchConfirm}
+            onCancel={() => setBatch(null)}
+          />
+        )}
+
+        {/* Plain text toggle: applies to the next submit only */}
+        <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={plainText}
+            onChange={(e) => setPlainText(e.target.checked)}
+            className="rounded border-gray-300 text-[#4B2FFF] focus:ring-[#4B2FFF]"
+          />
+          Treat as plain text <span className="text-gray-400">(or wrap words in quotes, or escape with \)</span>
+        </label>
+
+        {/* Already done toggle: applies to the next submit only */}
+        <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={loggedDone}
+            onChange={(e) => setLoggedDone(e.target.checked)}
+            className="rounded border-gray-300 text-[#4B2FFF] focus:ring-[#4B2FFF]"
+          />
+          Already done <span className="text-gray-400">(or start with "done:", e.g. "done: called the bank yesterday 3pm")</span>
+        </label>
+
+        {/* Confirmation of a slash command */}
+        {command && <CommandPreview command={command} locale={locale} />}
+
         {/* Parsed Task Preview and Suggestions */}
-        {parsed && input.trim() && (
+        {parsed && input.trim() && !command && (
           <div className="space-y-3 rounded-lg bg-gray-50 p-4 dark:bg-gray-900">
             {/* Task Title */}
             <div>
               <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">Task Title</label>
               <p className="mt-1 text-sm text-gray-900 dark:text-gray-100">{parsed.title}</p>
+              {subtasks.length > 0 && (
+                <ul className="mt-1 space-y-1 border-l-2 border-indigo-200 pl-3 dark:border-indigo-800">
+                  {subtasks.map((subtask, index) => (
+                    <li key={index} className="text-sm text-gray-900 dark:text-gray-100">
+                      ↳ {subtask.title}
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        {[
+                          subtask.date && `📅 ${formatDateForDisplay(subtask.date, dateOptions)}`,
+                          subtask.start &&
+                            !subtask.allDay &&
+                            `🕐 ${formatTimeRange(subtask.start, subtask.end)}`,
+                          ...subtask.tags.map((tag) => `#${tag}`),
+                        ]
+                          .filter(Boolean)
+                          .join(' ')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
 
+            {/* Completion of work already done */}
+            {parsed.completedAt && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">✅ Done</label>
+                <p className="mt-1 text-sm text-gray-900 dark:text-gray-100">
+                  {formatDateForDisplay(parsed.completedAt, dateOptions)}
+                  {parsed.time && `, ${parsed.time}`}
+                </p>
+              </div>
+            )}
+
+            {/* Recurrence */}
+            {parsed.recurrence && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">🔄 Repeats</label>
+                <p className="mt-1 text-sm text-gray-900 dark:text-gray-100">{formatRecurrence(parsed.recurrence, dateOptions)}</p>
+              </div>
+            )}
+
+            {/* Estimate */}
+            {parsed.estimateMinutes && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">⏱️ Estimate</label>
+                <p className="mt-1 text-sm text-gray-900 dark:text-gray-100">{formatEstimate(parsed.estimateMinutes)}</p>
+              </div>
+            )}
+
+            {/* Reminders */}
+            {parsed.reminders.length > 0 && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">🔔 Remind me</label>
+                <p className="mt-1 text-sm text-gray-900 dark:text-gray-100">
+                  {parsed.reminders.map(formatReminder).join(', ')}
+                </p>
+              </div>
+            )}
+
+            {/* Contexts and assignees */}
+            {(parsed.contexts.length > 0 || parsed.assignees.length > 0) && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">
+                  📍 Context &amp; 👤 Assigned to
+                </label>
+                <p className="mt-1 text-sm text-gray-900 dark:text-gray-100">
+                  {[
+                    ...parsed.contexts.map((context) => `@${context}`),
+                    ...parsed.assignees.map((person) => `@${person}`),
+                  ].join(', ')}
+                </p>
+              </div>
+            )}
+
+            {/* Links */}
+            {parsed.links.length > 0 && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">🔗 Links</label>
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {parsed.links.map((link) => (
+                    <LinkChip key={link.href} link={link} />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Recognized Tokens */}
+            {parsed.tokens.length > 0 && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">
+                  Recognized <span className="font-normal">(click to keep as text)</span>
+                </label>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {parsed.tokens.map((token) => (
+                    <button
+                      key={`${token.kind}-${token.start}`}
+                      type="button"
+                      onClick={() => handleTokenUnparse(token)}
+                      className={`rounded-full px-3 py-1 text-xs font-medium text-gray-900 transition-opacity hover:opacity-70 dark:text-gray-100 ${TOKEN_STYLES[token.kind].highlight}`}
+                      title={`Keep "${token.text}" in the title`}
+                    >
+                      <span className="mr-1">{TOKEN_STYLES[token.kind].icon}</span>
+                      {token.text}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Did you mean… picker for ambiguous tokens */}
+            {ambiguousTokens.map((token) => (
+              <div
+                key={`ambiguous-${token.start}`}
+                className="rounded-lg bg-amber-50 p-2 dark:bg-amber-900/30"
+              >
+                <label className="block text-xs font-semibold text-amber-800 dark:text-amber-200">
+                  Did you mean… <span className="font-normal">"{token.text}"</span>
+                </label>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleInterpretationSelect(token, null)}
+                    className="rounded-full bg-[#4B2FFF] px-3 py-1 text-xs font-medium text-white"
+                  >
+                    {TOKEN_STYLES[token.kind].icon}{' '}
+                    {token.kind === 'time'
+                      ? selectedTime
+                      : selectedDate && formatDateForDisplay(selectedDate, dateOptions)}
+                  </button>
+                  {token.alternatives.map((interpretation) => (
+                    <button
+                      key={interpretation.label}
+                      type="button"
+                      onClick={() => handleInterpretationSelect(token, interpretation)}
+                      className="rounded-full bg-white px-3 py-1 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-100 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                    >
+                      {interpretation.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
             {/* Date Selector */}
             <div>
               <button
@@ -169,8 +741,8 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
                 onClick={handleDateSectionClick}
                 className="flex items-center gap-2 text-xs font-semibold text-gray-600 transition-colors hover:text-[#4B2FFF] dark:text-gray-400 dark:hover:text-[#4B2FFF]"
               >
-                <span>📅 Date</span>
-                {selectedDate && <span className="ml-auto text-gray-900 dark:text-gray-100">{formatDateForDisplay(selectedDate)}</span>}
+                <span>📅 Scheduled</span>
+                {selectedDate && <span className="ml-auto text-gray-900 dark:text-gray-100">{formatDateForDisplay(selectedDate, dateOptions)}</span>}
               </button>
               {showDateSuggestions && (
                 <div ref={suggestionsRef} className="mt-2 space-y-2">
@@ -193,8 +765,16 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
               )}
             </div>
 
+            {/* Deadline */}
+            {parsed.deadline && (
+              <div className="flex items-center gap-2 text-xs font-semibold text-gray-600 dark:text-gray-400">
+                <span>⏰ Deadline</span>
+                <span className="ml-auto text-gray-900 dark:text-gray-100">{formatDateForDisplay(parsed.deadline, dateOptions)}</span>
+              </div>
+            )}
+
             {/* Time Selector */}
-            {selectedDate && (
+            {(selectedDate || parsed.deadline) && (
               <div>
                 <button
                   type="button"
@@ -202,11 +782,19 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
                     setShowTimeSuggestions(!showTimeSuggestions)
                     setShowDateSuggestions(false)
                     setShowTagSuggestions(false)
+                    setShowPrioritySuggestions(false)
+                    setShowListSuggestions(false)
                   }}
                   className="flex items-center gap-2 text-xs font-semibold text-gray-600 transition-colors hover:text-[#4B2FFF] dark:text-gray-400 dark:hover:text-[#4B2FFF]"
                 >
                   <span>🕐 Time</span>
-                  {selectedTime && <span className="ml-auto text-gray-900 dark:text-gray-100">{selectedTime}</span>}
+                  {selectedTime && (
+                    <span className="ml-auto text-gray-900 dark:text-gray-100">
+                      {selectedTime === parsed.time && parsed.start && parsed.end
+                        ? formatTimeRange(parsed.start, parsed.end)
+                        : selectedTime}
+                    </span>
+                  )}
                 </button>
                 {showTimeSuggestions && (
                   <div ref={suggestionsRef} className="mt-2 grid grid-cols-2 gap-2">
@@ -230,6 +818,122 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
               </div>
             )}
 
+            {/* Priority Selector */}
+            <div>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowPrioritySuggestions(!showPrioritySuggestions)
+                  setShowDateSuggestions(false)
+                  setShowTimeSuggestions(false)
+                  setShowTagSuggestions(false)
+                  setShowListSuggestions(false)
+                }}
+                className="flex items-center gap-2 text-xs font-semibold text-gray-600 transition-colors hover:text-[#4B2FFF] dark:text-gray-400 dark:hover:text-[#4B2FFF]"
+              >
+                <span>🚩 Priority</span>
+                {selectedPriority && <span className="ml-auto text-gray-900 dark:text-gray-100">{selectedPriority}</span>}
+              </button>
+              {showPrioritySuggestions && (
+                <div ref={suggestionsRef} className="mt-2 grid grid-cols-3 gap-2">
+                  {PRIORITY_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => handlePrioritySelect(option.value)}
+                      className={`rounded px-3 py-2 text-sm transition-colors ${
+                        selectedPriority === option.value
+                          ? 'bg-[#4B2FFF] text-white'
+                          : 'bg-gray-200 text-gray-900 hover:bg-gray-300 dark:bg-gray-800 dark:text-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      <span className="mr-2">{option.icon}</span>
+                      {option.text}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* List Selector */}
+            {(lists.length > 0 || selectedList) && (
+              <div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowListSuggestions(!showListSuggestions)
+                    setShowDateSuggestions(false)
+                    setShowTimeSuggestions(false)
+                    setShowTagSuggestions(false)
+                    setShowPrioritySuggestions(false)
+                  }}
+                  className="flex items-center gap-2 text-xs font-semibold text-gray-600 transition-colors hover:text-[#4B2FFF] dark:text-gray-400 dark:hover:text-[#4B2FFF]"
+                >
+                  <span>📋 List</span>
+                  {selectedList && (
+                    <span className="ml-auto text-gray-900 dark:text-gray-100">
+                      {matchedList ? matchedList.name : `${selectedList} (no match)`}
+                    </span>
+                  )}
+                </button>
+
+                {/* Create List */}
+                {selectedList && !matchedList && onCreateList && (
+                  <button
+                    type="button"
+                    onClick={handleCreateList}
+                    className="mt-2 w-full rounded border-2 border-dashed border-gray-300 px-3 py-2 text-left text-sm text-gray-700 transition-colors hover:border-[#4B2FFF] hover:text-[#4B2FFF] dark:border-gray-700 dark:text-gray-300"
+                  >
+                    + Create list "{selectedList}"
+                  </button>
+                )}
+
+                {/* An unknown "@name" may be a person or context rather than a list */}
+                {mentionCandidate && onAddMention && (
+                  <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => onAddMention('people', mentionCandidate)}
+                      className="rounded-full bg-pink-100 px-3 py-1 text-gray-900 hover:opacity-80 dark:bg-pink-900 dark:text-gray-100"
+                    >
+                      👤 @{mentionCandidate} is a person
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onAddMention('contexts', mentionCandidate)}
+                      className="rounded-full bg-cyan-100 px-3 py-1 text-gray-900 hover:opacity-80 dark:bg-cyan-900 dark:text-gray-100"
+                    >
+                      📍 @{mentionCandidate} is a context
+                    </button>
+                  </div>
+                )}
+
+                {/* List Suggestions */}
+                {showListSuggestions && (
+                  <div ref={suggestionsRef} className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-3">
+                    {listSuggestions.map((list) => (
+                      <button
+                        key={list.id}
+                        type="button"
+                        onClick={() => handleListSelect(list)}
+                        className={`rounded px-3 py-2 text-sm transition-colors ${
+                          matchedList?.id === list.id
+                            ? 'bg-[#4B2FFF] text-white'
+                            : 'bg-gray-200 text-gray-900 hover:bg-gray-300 dark:bg-gray-800 dark:text-gray-100 dark:hover:bg-gray-700'
+                        }`}
+                      >
+                        <span
+                          className="mr-2 inline-block h-2 w-2 rounded-full"
+                          style={{ backgroundColor: list.color || '#4B2FFF' }}
+                        />
+                        {list.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Tags Selector */}
             <div>
               <button
@@ -238,6 +942,8 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
                   setShowTagSuggestions(!showTagSuggestions)
                   setShowDateSuggestions(false)
                   setShowTimeSuggestions(false)
+                  setShowPrioritySuggestions(false)
+                  setShowListSuggestions(false)
                 }}
                 className="flex items-center gap-2 text-xs font-semibold text-gray-600 transition-colors hover:text-[#4B2FFF] dark:text-gray-400 dark:hover:text-[#4B2FFF]"
               >
@@ -270,7 +976,7 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
               {/* Tag Suggestions */}
               {showTagSuggestions && (
                 <div ref={suggestionsRef} className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-3">
-                  {commonTags.map((tag, idx) => (
+                  {tagSuggestions.slice(0, TAG_PANEL_LIMIT).map((tag, idx) => (
                     <button
                       key={idx}
                       type="button"
@@ -296,10 +1002,17 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
         {input.trim() && (
           <button
             type="submit"
-            className="w-full rounded-lg bg-[#4B2FFF] px-4 py-3 font-semibold text-white transition-all hover:bg-[#3a23cc] active:scale-95 dark:bg-[#4B2FFF] dark:hover:bg-[#6b3fff]"
+            disabled={command !== null && !command.action}
+            className="w-full rounded-lg bg-[#4B2FFF] px-4 py-3 font-semibold text-white transition-all hover:bg-[#3a23cc] active:scale-95 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-[#4B2FFF] dark:hover:bg-[#6b3fff]"
           >
-            <span>✓ Add Task</span>
-            {selectedDate && <span className="ml-2">{formatDateForDisplay(selectedDate)}</span>}
+            {command ? (
+              <span>✓ Run /{command.name ?? 'command'}</span>
+            ) : (
+              <>
+                <span>{parsed?.completedAt ? '✓ Log as Done' : '✓ Add Task'}</span>
+                {selectedDate && <span className="ml-2">{formatDateForDisplay(selectedDate, dateOptions)}</span>}
+              </>
+            )}
           </button>
         )}
       </form>
@@ -313,9 +1026,36 @@ export function QuickAddInput({ onTaskAdd, placeholder = 'Add a task... (try "Re
             <li>• "Buy groceries saturday evening #shopping"</li>
             <li>• "Fix bug in 2 days #bug tag: urgent"</li>
             <li>• "Team meeting next monday morning"</li>
+            <li>• "Fix login crash !high #bug"</li>
+            <li>• "Buy oat milk +Groceries"</li>
+            <li>• "Draft proposal start monday due friday"</li>
           </ul>
         </div>
       )}
     </div>
   )
 }
+
+/**
+ * Split the input into plain and highlighted segments for the backdrop
+ */
+function renderHighlightedInput(input: string, tokens: ParsedToken[]) {
+  const segments: React.ReactNode[] = []
+  let cursor = 0
+
+  tokens.forEach((token) => {
+    if (token.start > cursor) segments.push(input.slice(cursor, token.start))
+    segments.push(
+      <mark
+        key={`${token.kind}-${token.start}`}
+        className={`rounded-sm text-inherit ${TOKEN_STYLES[token.kind].highlight}`}
+      >
+        {input.slice(token.start, token.end)}
+      </mark>
+    )
+    cursor = token.end
+  })
+  segments.push(input.slice(cursor))
+
+  return segments
+}
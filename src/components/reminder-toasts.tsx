@@ -0,0 +1,49 @@
+/**
+ * Reminder Toasts Component
+ * In-app fallback for reminders when browser notifications are unavailable or denied
+ */
+
+import type { DueReminder } from '@/utils/reminder-scheduler'
+import { formatReminder } from '@/utils/natural-language-parser'
+
+export interface ReminderToastsProps {
+  toasts: DueReminder[]
+  onDismiss: (key: string) => void
+}
+
+export function ReminderToasts({ toasts, onDismiss }: ReminderToastsProps) {
+  if (toasts.length === 0) return null
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 z-50 flex w-80 flex-col gap-2"
+      role="status"
+      aria-live="polite"
+    >
+      {toasts.map(toast => (
+        <div
+          key={toast.key}
+          className="flex items-start gap-3 rounded-lg border border-orange-200 bg-white p-3 shadow-lg dark:border-orange-900 dark:bg-gray-900"
+        >
+          <span className="text-lg">🔔</span>
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium text-gray-900 dark:text-white">
+              {toast.task.title}
+            </p>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Reminder {formatReminder(toast.reminder)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onDismiss(toast.key)}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Dismiss reminder"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
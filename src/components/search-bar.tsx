@@ -0,0 +1,96 @@
+/**
+ * Search Bar Component
+ * Live task search with the query language from src/utils/search-query.ts
+ */
+
+import { formatDateForDisplay } from '@/utils/natural-language-parser'
+import { parseSearchQuery, type SearchTerm } from '@/utils/search-query'
+
+export interface SearchBarProps {
+  value: string
+  onChange: (value: string) => void
+  /** Number of matching tasks, shown while a query is entered */
+  resultCount?: number
+  placeholder?: string
+  /** Locale pack due: and date: phrases are read and shown in, English by default */
+  locale?: string
+}
+
+// Chip colors for recognized terms, keyed by field
+const FIELD_STYLES: Record<SearchTerm['field'], string> = {
+  text: 'bg-gray-100 dark:bg-gray-800',
+  tag: 'bg-purple-100 dark:bg-purple-900',
+  is: 'bg-green-100 dark:bg-green-900',
+  has: 'bg-green-100 dark:bg-green-900',
+  due: 'bg-rose-100 dark:bg-rose-900',
+  date: 'bg-blue-100 dark:bg-blue-900',
+  list: 'bg-teal-100 dark:bg-teal-900',
+  priority: 'bg-red-100 dark:bg-red-900',
+}
+
+export function SearchBar({
+  value,
+  onChange,
+  resultCount,
+  placeholder = 'Search... (try tag:work is:open due:<friday -tag:someday)',
+  locale,
+}: SearchBarProps) {
+  const query = parseSearchQuery(value, { locale })
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">
+          🔍
+        </span>
+        <input
+          type="search"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') onChange('')
+          }}
+          placeholder={placeholder}
+          aria-label="Search tasks"
+          className="w-full rounded-lg border border-gray-300 bg-white py-2 pl-9 pr-3 text-sm text-gray-900 placeholder-gray-400 focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] dark:border-gray-700 dark:bg-gray-900 dark:text-white dark:placeholder-gray-500"
+        />
+      </div>
+
+      {/* Recognized terms and problems */}
+      {value.trim() && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {query.terms.map((term) => (
+            <span
+              key={`${term.field}-${term.start}`}
+              className={`rounded-full px-2 py-0.5 text-gray-900 dark:text-gray-100 ${FIELD_STYLES[term.field]} ${
+                term.negated ? 'line-through' : ''
+              }`}
+            >
+              {term.field === 'text' ? `"${term.value}"` : describeTerm(term, locale)}
+            </span>
+          ))}
+          {query.errors.map((error) => (
+            <span key={error} className="text-red-600 dark:text-red-400">
+              ⚠️ {error}
+            </span>
+          ))}
+          {resultCount !== undefined && (
+            <span className="ml-auto text-gray-500 dark:text-gray-400">
+              {resultCount} {resultCount === 1 ? 'match' : 'matches'}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Short label for a field term: "tag:work", "due < Fri, Oct 23", "priority ≥ medium"
+ */
+function describeTerm(term: SearchTerm, locale?: string): string {
+  const value = term.date ? formatDateForDisplay(term.date, { locale }) : term.value
+  if (term.operator === '=') return `${term.field}:${value}`
+  const symbol = { '<': '<', '<=': '≤', '>': '>', '>=': '≥' }[term.operator]
+  return `${term.field} ${symbol} ${value}`
+}
@@ -1,11 +1,21 @@
 /**
  * Task Detail Modal Component
- * Provides editing capabilities for task title, description, priority, due date, tags, and recurrence
+ * Provides editing capabilities for task title, description, priority, scheduled date, deadline,
+ * start/end time, estimate, tags, and recurrence, and lists the task's links
  */
 
 import { useState, useEffect } from 'react'
 import type { Task } from '@/hooks/use-tasks'
-import { formatDateForDisplay } from '@/utils/natural-language-parser'
+import {
+  buildSchedule,
+  formatDateForDisplay,
+  formatRecurrence,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type TaskPriority,
+} from '@/utils/natural-language-parser'
+import type { TaskLink } from '@/utils/task-links'
+import { LinkChip } from '@/components/link-chip'
 
 export interface TaskDetailModalProps {
   task: Task
@@ -14,6 +24,43 @@ export interface TaskDetailModalProps {
   onSave: (updates: Partial<Task>) => void
 }
 
+type RecurrencePreset = 'none' | RecurrenceFrequency | 'custom'
+
+/**
+ * Map a rule onto the preset dropdown; anything beyond a plain
+ * "every day/week/month/year" is shown as the task's own custom rule
+ */
+function getRecurrencePreset(rule: RecurrenceRule | null): RecurrencePreset {
+  if (!rule) return 'none'
+  const isPlain =
+    rule.interval === 1 && !rule.weekdays && !rule.dayOfMonth && !rule.until && !rule.count
+  return isPlain ? rule.frequency : 'custom'
+}
+
+/**
+ * Convert between Date and the local YYYY-MM-DD value of a date input
+ */
+function toInputDate(date: Date | null): string {
+  if (!date) return ''
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Local HH:MM value of a time input
+ */
+function toInputTime(date: Date | null): string {
+  if (!date) return ''
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+function fromInputDate(value: string): Date | null {
+  if (!value) return null
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
 export function TaskDetailModal({
   task,
   isOpen,
@@ -22,18 +69,20 @@ export function TaskDetailModal({
 }: TaskDetailModalProps) {
   const [title, setTitle] = useState(task.title)
   const [description, setDescription] = useState(task.description || '')
-  const [priority, setPriority] = useState<'low' | 'medium' | 'high'>(
+  const [priority, setPriority] = useState<TaskPriority>(
     task.priority || 'medium'
   )
-  const [dueDate, setDueDate] = useState<string>(
-    task.date ? task.date.toISOString().split('T')[0] : ''
-  )
+  const [scheduledDate, setScheduledDate] = useState(toInputDate(task.scheduledDate))
+  const [deadline, setDeadline] = useState(toInputDate(task.deadline))
   const [time, setTime] = useState(task.time || '')
+  const [endTime, setEndTime] = useState(toInputTime(task.end))
+  const [estimate, setEstimate] = useState(
+    task.estimateMinutes ? String(task.estimateMinutes) : ''
+  )
   const [tags, setTags] = useState<string[]>(task.tags)
   const [tagInput, setTagInput] = useState('')
-  const [recurrence, setRecurrence] = useState<'none' | 'daily' | 'weekly' | 'monthly'>(
-    task.recurrence || 'none'
-  )
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(task.recurrence)
+  const [links, setLinks] = useState<TaskLink[]>(task.links)
   const [hasChanges, setHasChanges] = useState(false)
 
   // Track if any changes have been made
@@ -42,12 +91,29 @@ export function TaskDetailModal({
       title !== task.title ||
       description !== (task.description || '') ||
       priority !== (task.priority || 'medium') ||
-      dueDate !== (task.date ? task.date.toISOString().split('T')[0] : '') ||
+      scheduledDate !== toInputDate(task.scheduledDate) ||
+      deadline !== toInputDate(task.deadline) ||
       time !== (task.time || '') ||
+      endTime !== toInputTime(task.end) ||
+      estimate !== (task.estimateMinutes ? String(task.estimateMinutes) : '') ||
       JSON.stringify(tags) !== JSON.stringify(task.tags) ||
-      recurrence !== (task.recurrence || 'none')
+      JSON.stringify(recurrence) !== JSON.stringify(task.recurrence) ||
+      links.length !== task.links.length
     setHasChanges(changed)
-  }, [title, description, priority, dueDate, time, tags, recurrence, task])
+  }, [
+    title,
+    description,
+    priority,
+    scheduledDate,
+    deadline,
+    time,
+    endTime,
+    estimate,
+    tags,
+    recurrence,
+    links,
+    task,
+  ])
 
   const handleAddTag = () => {
     if (tagInput.trim() && !tags.includes(tagInput.trim().toLowerCase())) {
@@ -60,15 +126,30 @@ export function TaskDetailModal({
     setTags(tags.filter((t) => t !== tagToRemove))
   }
 
+  const handleRecurrenceChange = (preset: RecurrencePreset) => {
+    if (preset === 'none') setRecurrence(null)
+    else if (preset === 'custom') setRecurrence(task.recurrence)
+    else setRecurrence({ frequency: preset, interval: 1 })
+  }
+
   const handleSave = () => {
     const updates: Partial<Task> = {
       title,
       description: description || undefined,
       priority,
-      date: dueDate ? new Date(dueDate) : null,
-      time: time || null,
+      date: fromInputDate(scheduledDate) ?? fromInputDate(deadline),
+      scheduledDate: fromInputDate(scheduledDate),
+      deadline: fromInputDate(deadline),
+      // Without a start time the task is all-day and any end time is dropped
+      ...buildSchedule(
+        fromInputDate(scheduledDate) ?? fromInputDate(deadline),
+        time || null,
+        (time && endTime) || null
+      ),
+      estimateMinutes: parseInt(estimate, 10) > 0 ? parseInt(estimate, 10) : null,
       tags,
       recurrence,
+      links,
     }
     onSave(updates)
     onClose()
@@ -184,41 +265,83 @@ export function TaskDetailModal({
                 </div>
               </div>
 
-              {/* Due Date */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                  Due Date
-                </label>
-                <input
-                  type="date"
-                  value={dueDate}
-                  onChange={(e) => setDueDate(e.target.value)}
-                  className="mt-1 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] dark:border-gray-700 dark:bg-gray-800 dark:text-white"
-                />
+              {/* Scheduled Date and Deadline */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Scheduled
+                  </label>
+                  <input
+                    type="date"
+                    value={scheduledDate}
+                    onChange={(e) => setScheduledDate(e.target.value)}
+                    className="mt-1 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Deadline
+                  </label>
+                  <input
+                    type="date"
+                    value={deadline}
+                    onChange={(e) => setDeadline(e.target.value)}
+                    className="mt-1 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                  />
+                </div>
               </div>
 
-              {/* Time */}
+              {/* Time (start and optional end; none means all-day) */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                   Time
                 </label>
-                <div className="mt-2 flex gap-2">
+                <div className="mt-2 flex items-center gap-2">
                   <input
                     type="time"
                     value={time}
                     onChange={(e) => setTime(e.target.value)}
+                    aria-label="Start time"
                     className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] dark:border-gray-700 dark:bg-gray-800 dark:text-white"
                   />
+                  <span className="text-gray-500 dark:text-gray-400">–</span>
+                  <input
+                    type="time"
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                    disabled={!time}
+                    aria-label="End time"
+                    className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] disabled:opacity-50 dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                  />
                   <button
-                    onClick={() => setTime('')}
+                    onClick={() => {
+                      setTime('')
+                      setEndTime('')
+                    }}
                     disabled={!time}
                     className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
                   >
-                    Clear
+                    All day
                   </button>
                 </div>
               </div>
 
+              {/* Estimate */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Estimate (minutes)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step={5}
+                  value={estimate}
+                  onChange={(e) => setEstimate(e.target.value)}
+                  className="mt-1 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-400 shadow-sm focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] dark:border-gray-700 dark:bg-gray-800 dark:text-white dark:placeholder-gray-500"
+                  placeholder="e.g. 30"
+                />
+              </div>
+
               {/* Tags */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -268,15 +391,33 @@ export function TaskDetailModal({
                 )}
               </div>
 
+              {/* Links */}
+              {links.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Links
+                  </label>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {links.map((link) => (
+                      <LinkChip
+                        key={link.href}
+                        link={link}
+                        onRemove={() => setLinks(links.filter((other) => other !== link))}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Recurrence */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                   Recurrence
                 </label>
                 <select
-                  value={recurrence}
+                  value={getRecurrencePreset(recurrence)}
                   onChange={(e) =>
-                    setRecurrence(e.target.value as typeof recurrence)
+                    handleRecurrenceChange(e.target.value as RecurrencePreset)
                   }
                   className="mt-1 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] dark:border-gray-700 dark:bg-gray-800 dark:text-white"
                 >
@@ -284,6 +425,10 @@ export function TaskDetailModal({
                   <option value="daily">Daily</option>
                   <option value="weekly">Weekly</option>
                   <option value="monthly">Monthly</option>
+                  <option value="yearly">Yearly</option>
+                  {getRecurrencePreset(task.recurrence) === 'custom' && task.recurrence && (
+                    <option value="custom">{formatRecurrence(task.recurrence)}</option>
+                  )}
                 </select>
               </div>
             </div>
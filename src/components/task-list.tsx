@@ -4,9 +4,16 @@
  */
 
 import { useState } from 'react'
-import type { Task } from '@/hooks/use-tasks'
-import { formatDateForDisplay } from '@/utils/natural-language-parser'
+import { compareByStart, isPastDeadline, type Task } from '@/hooks/use-tasks'
+import {
+  formatDateForDisplay,
+  formatEstimate,
+  formatRecurrence,
+  formatReminder,
+  formatTimeRange,
+} from '@/utils/natural-language-parser'
 import { TaskDetailModal } from '@/components/task-detail-modal'
+import { LinkChip } from '@/components/link-chip'
 
 export interface TaskListProps {
   tasks: Task[]
@@ -15,6 +22,8 @@ export interface TaskListProps {
   onEdit?: (taskId: string, updates: Partial<Task>) => void
   groupBy?: 'date' | 'tag' | 'none'
   filter?: 'all' | 'active' | 'completed'
+  /** Locale pack dates are shown in, English by default */
+  locale?: string
 }
 
 export function TaskList({
@@ -24,8 +33,11 @@ export function TaskList({
   onEdit,
   groupBy = 'date',
   filter = 'all',
+  locale,
 }: TaskListProps) {
   const [selectedTag, setSelectedTag] = useState<string | null>(null)
+  const [selectedContext, setSelectedContext] = useState<string | null>(null)
+  const [selectedAssignee, setSelectedAssignee] = useState<string | null>(null)
   const [selectedTaskForEdit, setSelectedTaskForEdit] = useState<Task | null>(null)
 
   // Filter tasks based on completion status
@@ -35,18 +47,28 @@ export function TaskList({
     return true
   })
 
-  // Filter by selected tag
-  const finalTasks = selectedTag
-    ? filteredTasks.filter((task) => task.tags.includes(selectedTag))
-    : filteredTasks
+  // Filter by selected tag, context and assignee
+  const finalTasks = filteredTasks.filter(
+    (task) =>
+      (!selectedTag || task.tags.includes(selectedTag)) &&
+      (!selectedContext || task.contexts.includes(selectedContext)) &&
+      (!selectedAssignee || task.assignees.includes(selectedAssignee))
+  )
 
   // Get all unique tags from tasks
   const allTags = Array.from(
     new Set(finalTasks.flatMap((task) => task.tags))
   ).sort()
 
+  // Contexts and assignees come from every task in view so their filters stay put
+  const allContexts = Array.from(new Set(filteredTasks.flatMap((task) => task.contexts))).sort()
+  const allAssignees = Array.from(new Set(filteredTasks.flatMap((task) => task.assignees))).sort()
+
   // Group tasks
-  const groupedTasks = groupTasks(finalTasks, groupBy)
+  const groupedTasks = groupTasks(finalTasks, groupBy, locale)
+
+  // Subtasks name the task they were captured under
+  const titles = new Map(tasks.map((task) => [task.id, task.title]))
 
   return (
     <>
@@ -80,12 +102,56 @@ export function TaskList({
           </div>
         )}
 
+        {/* Context Filter */}
+        {allContexts.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <FilterChip active={selectedContext === null} onClick={() => setSelectedContext(null)}>
+              All Contexts
+            </FilterChip>
+            {allContexts.map((context) => (
+              <FilterChip
+                key={context}
+                active={selectedContext === context}
+                onClick={() => setSelectedContext(context)}
+              >
+                📍 @{context}
+              </FilterChip>
+            ))}
+          </div>
+        )}
+
+        {/* Assignee Filter */}
+        {allAssignees.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <FilterChip
+              active={selectedAssignee === null}
+              onClick={() => setSelectedAssignee(null)}
+            >
+              Anyone
+            </FilterChip>
+            {allAssignees.map((person) => (
+              <FilterChip
+                key={person}
+                active={selectedAssignee === person}
+                onClick={() => setSelectedAssignee(person)}
+              >
+                👤 @{person}
+              </FilterChip>
+            ))}
+          </div>
+        )}
+
       {/* Task Groups */}
       {Object.entries(groupedTasks).map(([groupName, groupTasks]) => (
         <div key={groupName}>
           {groupBy !== 'none' && (
-            <h3 className="mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
-              {groupName}
+            <h3 className="mb-2 flex items-baseline justify-between text-sm font-semibold text-gray-700 dark:text-gray-300">
+              <span>{groupName}</span>
+              {getEstimateTotal(groupTasks) > 0 && (
+                <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                  ⏱️ {formatEstimate(getEstimateTotal(groupTasks))}
+                </span>
+              )}
             </h3>
           )}
           <div className="space-y-2">
@@ -98,6 +164,8 @@ export function TaskList({
                 <TaskItem
                   key={task.id}
                   task={task}
+                  parentTitle={task.parentId ? titles.get(task.parentId) : undefined}
+                  locale={locale}
                   onToggle={() => onToggle?.(task.id)}
                   onDelete={() => onDelete?.(task.id)}
                   onEdit={() => setSelectedTaskForEdit(task)}
@@ -114,7 +182,9 @@ export function TaskList({
           <p className="text-sm text-gray-500 dark:text-gray-400">
             {selectedTag
               ? `No tasks with tag "${selectedTag}"`
-              : 'No tasks'}
+              : selectedContext || selectedAssignee
+                ? 'No tasks match these filters'
+                : 'No tasks'}
           </p>
         </div>
       )}
@@ -136,16 +206,47 @@ export function TaskList({
   )
 }
 
+/**
+ * Toggle button for a filter value
+ */
+function FilterChip({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={active}
+      className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+        active
+          ? 'bg-[#4B2FFF] text-white'
+          : 'bg-gray-200 text-gray-900 hover:bg-gray-300 dark:bg-gray-800 dark:text-gray-100 dark:hover:bg-gray-700'
+      }`}
+    >
+      {children}
+    </button>
+  )
+}
+
 /**
  * Individual Task Item Component
  */
 function TaskItem({
   task,
+  parentTitle,
+  locale,
   onToggle,
   onDelete,
   onEdit,
 }: {
   task: Task
+  parentTitle?: string
+  locale?: string
   onToggle?: () => void
   onDelete?: () => void
   onEdit?: () => void
@@ -217,19 +318,44 @@ function TaskItem({
 
         {/* Meta Info */}
         <div className="mt-1 flex flex-wrap gap-2 text-xs text-gray-600 dark:text-gray-400">
+          {parentTitle && <span>↳ {parentTitle}</span>}
           {task.priority && task.priority !== 'medium' && (
             <span>
               {task.priority === 'high' ? '🔴' : '📊'} {task.priority}
             </span>
           )}
-          {task.date && (
-            <span>📅 {formatDateForDisplay(task.date)}</span>
+          {task.scheduledDate && (
+            <span>📅 {formatDateForDisplay(task.scheduledDate, { locale })}</span>
           )}
-          {task.time && <span>🕐 {task.time}</span>}
-          {task.recurrence && task.recurrence !== 'none' && (
-            <span>🔄 {task.recurrence}</span>
+          {task.deadline && (
+            <span className={isPastDeadline(task) ? 'font-medium text-red-600 dark:text-red-400' : ''}>
+              ⏰ due {formatDateForDisplay(task.deadline, { locale })}
+            </span>
+          )}
+          {task.start && !task.allDay && <span>🕐 {formatTimeRange(task.start, task.end)}</span>}
+          {task.estimateMinutes && <span>⏱️ {formatEstimate(task.estimateMinutes)}</span>}
+          {task.recurrence && (
+            <span>🔄 {formatRecurrence(task.recurrence, { locale })}</span>
+          )}
+          {task.reminders.length > 0 && (
+            <span>🔔 {task.reminders.map(formatReminder).join(', ')}</span>
+          )}
+          {task.contexts.map((context) => (
+            <span key={`context-${context}`}>📍 @{context}</span>
+          ))}
+          {task.assignees.length > 0 && (
+            <span>👤 {task.assignees.map((person) => `@${person}`).join(', ')}</span>
           )}
         </div>
+
+        {/* Links */}
+        {task.links.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {task.links.map((link) => (
+              <LinkChip key={link.href} link={link} />
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Action Buttons */}
@@ -254,12 +380,22 @@ function TaskItem({
   )
 }
 
+/**
+ * Sum the estimates of a group's open tasks, to show how loaded it is
+ */
+function getEstimateTotal(tasks: Task[]): number {
+  return tasks
+    .filter((task) => !task.completed)
+    .reduce((total, task) => total + (task.estimateMinutes ?? 0), 0)
+}
+
 /**
  * Group tasks by date, tag, or none
  */
 function groupTasks(
   tasks: Task[],
-  groupBy: 'date' | 'tag' | 'none'
+  groupBy: 'date' | 'tag' | 'none',
+  locale?: string
 ): Record<string, Task[]> {
   if (groupBy === 'none') {
     return { Tasks: tasks }
@@ -273,10 +409,14 @@ function groupTasks(
     tomorrow.setDate(tomorrow.getDate() + 1)
 
     const overdue: Task[] = []
+    const earlier: Task[] = []
     const todaysTasks: Task[] = []
     const upcoming: Record<string, Task[]> = {}
 
-    tasks.forEach((task) => {
+    // Sorted by start so days come in order and timed tasks follow their day's all-day ones
+    const sortedTasks = [...tasks].sort(compareByStart)
+
+    sortedTasks.forEach((task) => {
       if (!task.date) {
         if (!groups['Undated']) groups['Undated'] = []
         groups['Undated'].push(task)
@@ -285,18 +425,22 @@ function groupTasks(
 
       const taskDate = new Date(task.date)
 
-      if (taskDate < today) {
+      // Only a missed deadline makes a task overdue; past scheduled dates are just earlier
+      if (isPastDeadline(task)) {
         overdue.push(task)
+      } else if (taskDate < today) {
+        earlier.push(task)
       } else if (taskDate < tomorrow) {
         todaysTasks.push(task)
       } else {
-        const dateKey = formatDateForDisplay(taskDate)
+        const dateKey = formatDateForDisplay(taskDate, { locale })
         if (!upcoming[dateKey]) upcoming[dateKey] = []
         upcoming[dateKey].push(task)
       }
     })
 
     if (overdue.length > 0) groups['⚠️ Overdue'] = overdue
+    if (earlier.length > 0) groups['🕘 Earlier'] = earlier
     if (todaysTasks.length > 0) groups['📅 Today'] = todaysTasks
     Object.assign(groups, upcoming)
 
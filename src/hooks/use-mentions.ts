@@ -0,0 +1,70 @@
+/**
+ * useMentions Hook
+ * Manages the people and contexts registry that "@name" mentions are read against
+ */
+
+import { useState, useCallback, useEffect } from 'react'
+import { DEFAULT_CONTEXTS, type MentionRegistry } from '@/utils/natural-language-parser'
+
+const MENTIONS_STORAGE_KEY = 'notodo:mentions'
+
+export type MentionKind = keyof MentionRegistry
+
+const DEFAULT_REGISTRY: MentionRegistry = {
+  people: [],
+  contexts: DEFAULT_CONTEXTS,
+}
+
+/**
+ * The stored registry, or the default contexts and nobody
+ */
+function loadRegistry(): MentionRegistry {
+  try {
+    const stored = localStorage.getItem(MENTIONS_STORAGE_KEY)
+    if (stored) return { ...DEFAULT_REGISTRY, ...JSON.parse(stored) }
+  } catch (error) {
+    console.error('Failed to load mentions from localStorage:', error)
+  }
+  return DEFAULT_REGISTRY
+}
+
+/**
+ * Hook for managing people and contexts with localStorage persistence
+ */
+export function useMentions() {
+  const [mentions, setMentions] = useState<MentionRegistry>(loadRegistry)
+
+  // Save the registry to localStorage whenever it changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(MENTIONS_STORAGE_KEY, JSON.stringify(mentions))
+    } catch (error) {
+      console.error('Failed to save mentions to localStorage:', error)
+    }
+  }, [mentions])
+
+  // Register a person or context; names are unique across both, ignoring case
+  const addMention = useCallback((kind: MentionKind, name: string) => {
+    const trimmed = name.trim().replace(/^@/, '')
+    if (!/^[a-zA-Z][\w-]*$/.test(trimmed)) return
+    setMentions((prev) => {
+      const taken = [...prev.people, ...prev.contexts].some(
+        (known) => known.toLowerCase() === trimmed.toLowerCase()
+      )
+      if (taken) return prev
+      const value = kind === 'contexts' ? trimmed.toLowerCase() : trimmed
+      return { ...prev, [kind]: [...prev[kind], value] }
+    })
+  }, [])
+
+  // Remove a person or context
+  const removeMention = useCallback((kind: MentionKind, name: string) => {
+    setMentions((prev) => ({ ...prev, [kind]: prev[kind].filter((known) => known !== name) }))
+  }, [])
+
+  return {
+    mentions,
+    addMention,
+    removeMention,
+  }
+}
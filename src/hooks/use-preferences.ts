@@ -0,0 +1,99 @@
+/**
+ * usePreferences Hook
+ * Manages app-wide preferences (the locale, date order, work week and holiday calendar) and
+ * their persistence
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { DEFAULT_HOLIDAY_CALENDAR, getHolidayRules, type HolidayRule } from '@/utils/holidays'
+import { DEFAULT_LOCALE } from '@/utils/locales'
+import type { DateOrder } from '@/utils/natural-language-parser'
+
+const PREFERENCES_STORAGE_KEY = 'notodo:preferences'
+
+export interface Preferences {
+  /** Id of the locale pack quick add reads dates in and dates are shown in */
+  locale: string
+  /** How numeric dates like 03/04/2027 are read; 'auto' follows the locale */
+  dateOrder: DateOrder | 'auto'
+  /** Working days of the week (0 = Sunday), used by "in 3 business days" */
+  workWeek: number[]
+  /** Id of a bundled holiday calendar, or 'none' */
+  holidayCalendar: string
+  /** The user's own days off and named days */
+  customHolidays: HolidayRule[]
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  locale: DEFAULT_LOCALE,
+  dateOrder: 'auto',
+  workWeek: [1, 2, 3, 4, 5],
+  holidayCalendar: DEFAULT_HOLIDAY_CALENDAR,
+  customHolidays: [],
+}
+
+/**
+ * Stored preferences, with defaults for anything saved before a setting existed
+ */
+function loadPreferences(): Preferences {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY)
+    if (stored) return { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) }
+  } catch (error) {
+    console.error('Failed to load preferences from localStorage:', error)
+  }
+  return DEFAULT_PREFERENCES
+}
+
+/**
+ * Hook for managing preferences with localStorage persistence. Preferences are
+ * read on first render so quick add never parses with the defaults by mistake.
+ */
+export function usePreferences() {
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences)
+
+  // Save preferences to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences))
+    } catch (error) {
+      console.error('Failed to save preferences to localStorage:', error)
+    }
+  }, [preferences])
+
+  // Change some preferences
+  const updatePreferences = useCallback((updates: Partial<Preferences>) => {
+    setPreferences((prev) => ({ ...prev, ...updates }))
+  }, [])
+
+  // Add a custom holiday
+  const addCustomHoliday = useCallback((rule: HolidayRule) => {
+    setPreferences((prev) => ({ ...prev, customHolidays: [...prev.customHolidays, rule] }))
+  }, [])
+
+  // Delete a custom holiday by position
+  const deleteCustomHoliday = useCallback((index: number) => {
+    setPreferences((prev) => ({
+      ...prev,
+      customHolidays: prev.customHolidays.filter((_, i) => i !== index),
+    }))
+  }, [])
+
+  // The holidays parsing works with: the chosen calendar plus custom ones
+  const holidays = useMemo(
+    () => getHolidayRules(preferences.holidayCalendar, preferences.customHolidays),
+    [preferences.holidayCalendar, preferences.customHolidays]
+  )
+
+  // The date order parsing works with, none to follow the locale
+  const dateOrder = preferences.dateOrder === 'auto' ? undefined : preferences.dateOrder
+
+  return {
+    preferences,
+    holidays,
+    dateOrder,
+    updatePreferences,
+    addCustomHoliday,
+    deleteCustomHoliday,
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * useReminders Hook
+ * Fires the reminders of a set of tasks while mounted, as browser notifications or
+ * in-app toasts when notifications are not allowed
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { Task } from '@/hooks/use-tasks'
+import {
+  createReminderScheduler,
+  deliverReminder,
+  type DueReminder,
+} from '@/utils/reminder-scheduler'
+
+/**
+ * Hook for scheduling task reminders. Pass `enabled` false until the tasks are
+ * loaded so reminders of a half-restored list are not fired, and a null
+ * `storageKey` for tasks that are not saved either (see createReminderScheduler).
+ */
+export function useReminders(tasks: Task[], enabled = true, storageKey?: string | null) {
+  const [reminderToasts, setReminderToasts] = useState<DueReminder[]>([])
+  const schedulerRef = useRef<ReturnType<typeof createReminderScheduler> | null>(null)
+
+  // Run the reminder timers for as long as the hook is mounted
+  useEffect(() => {
+    const scheduler = createReminderScheduler(
+      (due) => deliverReminder(due, (toast) => setReminderToasts((prev) => [...prev, toast])),
+      storageKey
+    )
+    schedulerRef.current = scheduler
+    return () => scheduler.stop()
+  }, [storageKey])
+
+  // Reschedule reminders whenever tasks change (new dates, completion, deletion)
+  useEffect(() => {
+    if (enabled) schedulerRef.current?.sync(tasks)
+  }, [tasks, enabled, storageKey])
+
+  // Dismiss an in-app reminder toast
+  const dismissReminderToast = useCallback((key: string) => {
+    setReminderToasts((prev) => prev.filter((toast) => toast.key !== key))
+  }, [])
+
+  return { reminderToasts, dismissReminderToast }
+}
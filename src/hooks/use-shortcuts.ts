@@ -0,0 +1,72 @@
+/**
+ * useShortcuts Hook
+ * Manages the user's quick-add shortcuts and their persistence
+ */
+
+import { useState, useCallback, useEffect } from 'react'
+import type { ShortcutRule } from '@/utils/natural-language-parser'
+
+const SHORTCUTS_STORAGE_KEY = 'notodo:shortcuts'
+
+/** A shortcut as entered in settings, before it has an id */
+export type NewShortcutRule =
+  | Omit<Extract<ShortcutRule, { kind: 'expansion' }>, 'id'>
+  | Omit<Extract<ShortcutRule, { kind: 'keyword' }>, 'id'>
+
+/**
+ * The stored shortcuts, or none
+ */
+function loadShortcuts(): ShortcutRule[] {
+  try {
+    const stored = localStorage.getItem(SHORTCUTS_STORAGE_KEY)
+    if (stored) return JSON.parse(stored)
+  } catch (error) {
+    console.error('Failed to load shortcuts from localStorage:', error)
+  }
+  return []
+}
+
+/**
+ * Hook for managing shortcuts with localStorage persistence
+ */
+export function useShortcuts() {
+  const [shortcuts, setShortcuts] = useState<ShortcutRule[]>(loadShortcuts)
+
+  // Save shortcuts to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(shortcuts))
+    } catch (error) {
+      console.error('Failed to save shortcuts to localStorage:', error)
+    }
+  }, [shortcuts])
+
+  // Add a shortcut
+  const addShortcut = useCallback((rule: NewShortcutRule) => {
+    const newRule = {
+      ...rule,
+      id: `shortcut-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    } as ShortcutRule
+    setShortcuts((prev) => [...prev, newRule])
+    return newRule
+  }, [])
+
+  // Replace a shortcut, e.g. after editing it
+  const updateShortcut = useCallback((id: string, rule: NewShortcutRule) => {
+    setShortcuts((prev) =>
+      prev.map((shortcut) => (shortcut.id === id ? ({ ...rule, id } as ShortcutRule) : shortcut))
+    )
+  }, [])
+
+  // Delete a shortcut
+  const deleteShortcut = useCallback((id: string) => {
+    setShortcuts((prev) => prev.filter((shortcut) => shortcut.id !== id))
+  }, [])
+
+  return {
+    shortcuts,
+    addShortcut,
+    updateShortcut,
+    deleteShortcut,
+  }
+}
@@ -4,7 +4,17 @@
  */
 
 import { useState, useCallback, useEffect } from 'react'
-import type { ParsedTask } from '@/utils/natural-language-parser'
+import {
+  buildSchedule,
+  type ParsedTask,
+  type ParsedToken,
+  type RecurrenceRule,
+} from '@/utils/natural-language-parser'
+import { fuzzyFind } from '@/utils/fuzzy-match'
+import { requestReminderPermission } from '@/utils/reminder-scheduler'
+import { suggestTags, type TagSuggestion } from '@/utils/tag-suggestions'
+import type { SlashCommandAction } from '@/utils/slash-commands'
+import { useReminders } from '@/hooks/use-reminders'
 
 export interface TaskList {
   id: string
@@ -13,20 +23,92 @@ export interface TaskList {
   createdAt: Date
 }
 
+/**
+ * A stored task. Inline subtasks ("Plan trip: book flights; reserve hotel") are stored
+ * as tasks of their own that point at their parent, so `subtasks` is always empty.
+ */
 export interface Task extends ParsedTask {
   id: string
   createdAt: Date
-  completedAt?: Date
   completed: boolean
   description?: string
-  priority?: 'low' | 'medium' | 'high'
-  recurrence?: 'none' | 'daily' | 'weekly' | 'monthly'
   listId?: string // Reference to the list/project this task belongs to
+  parentId?: string // The task this one was captured under as a subtask
 }
 
 const STORAGE_KEY = 'notodo:tasks'
 const LISTS_STORAGE_KEY = 'notodo:lists'
 
+/**
+ * Resolve a list name typed in quick add (+Groceries, @"Side project") to the
+ * best fuzzy, case-insensitive match among the existing lists
+ */
+export function findListByName(lists: TaskList[], name: string): TaskList | undefined {
+  return fuzzyFind(name, lists, (list) => list.name)[0]
+}
+
+/**
+ * Whether an open task's deadline is before today
+ */
+export function isPastDeadline(task: Task): boolean {
+  if (!task.deadline || task.completed) return false
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  return new Date(task.deadline) < today
+}
+
+/**
+ * Restore a stored date, which JSON keeps as an ISO string
+ */
+function deserializeDate(stored: string | null | undefined): Date | null {
+  return stored ? new Date(stored) : null
+}
+
+/**
+ * Order tasks by when they start: earlier first, all-day tasks (which start at
+ * midnight) ahead of timed ones on the same day, tasks without a start last
+ */
+export function compareByStart(a: Task, b: Task): number {
+  if (!a.start || !b.start) return (a.start ? 0 : 1) - (b.start ? 0 : 1)
+  return new Date(a.start).getTime() - new Date(b.start).getTime()
+}
+
+/**
+ * Restore a stored task's start/end. Tasks saved before the datetime model only
+ * had a day and an HH:MM time, from which both are rebuilt.
+ */
+function deserializeSchedule(stored: {
+  date?: string | null
+  start?: string | null
+  end?: string | null
+  allDay?: boolean
+  time?: string | null
+}): Pick<Task, 'start' | 'end' | 'allDay' | 'time'> {
+  if (stored.start === undefined) {
+    return buildSchedule(deserializeDate(stored.date), stored.time ?? null)
+  }
+  return {
+    start: deserializeDate(stored.start),
+    end: deserializeDate(stored.end),
+    allDay: stored.allDay ?? false,
+    time: stored.time ?? null,
+  }
+}
+
+/**
+ * Restore a stored recurrence rule. Tasks saved before rules were structured
+ * stored the frequency as a plain string ('none' | 'daily' | 'weekly' | 'monthly').
+ */
+function deserializeRecurrence(
+  stored: RecurrenceRule | string | null | undefined
+): RecurrenceRule | null {
+  if (!stored || stored === 'none') return null
+  if (typeof stored === 'string') {
+    return { frequency: stored as RecurrenceRule['frequency'], interval: 1 }
+  }
+  return { ...stored, until: stored.until ? new Date(stored.until) : undefined }
+}
+
 /**
  * Hook for managing tasks with localStorage persistence
  */
@@ -47,7 +129,29 @@ export function useTasks() {
           ...task,
           createdAt: new Date(task.createdAt),
           date: task.date ? new Date(task.date) : null,
-          completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+          // Tasks saved before deadlines existed only had a single (scheduled) date
+          scheduledDate: deserializeDate(
+            task.scheduledDate !== undefined ? task.scheduledDate : task.date
+          ),
+          deadline: deserializeDate(task.deadline),
+          ...deserializeSchedule(task),
+          // Tokens saved before confidence scoring were all taken as certain
+          tokens: (task.tokens ?? []).map((token: Partial<ParsedToken>) => ({
+            confidence: 1,
+            alternatives: [],
+            ...token,
+          })),
+          confidence: task.confidence ?? 1,
+          priority: task.priority ?? null,
+          list: task.list ?? null,
+          contexts: task.contexts ?? [],
+          assignees: task.assignees ?? [],
+          estimateMinutes: task.estimateMinutes ?? null,
+          recurrence: deserializeRecurrence(task.recurrence),
+          reminders: task.reminders ?? [],
+          links: task.links ?? [],
+          completedAt: deserializeDate(task.completedAt),
+          subtasks: [],
         }))
         setTasks(tasks)
       }
@@ -90,19 +194,34 @@ export function useTasks() {
     }
   }, [lists, loaded])
 
-  // Add a new task
+  // Fire reminders once the stored tasks are loaded
+  const { reminderToasts, dismissReminderToast } = useReminders(tasks, loaded)
+
+  // Add a new task, filing it under the list named in the input if one matches. Work
+  // logged as already done ("done: ...") is added completed, like a toggled task.
+  // Inline subtasks are added after it, in its list unless they name their own.
   const addTask = useCallback(
     (parsed: ParsedTask) => {
-      const newTask: Task = {
-        ...parsed,
-        id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        createdAt: new Date(),
-        completed: false,
+      const toTask = (fields: ParsedTask, parent?: Task): Task => {
+        const completed = fields.completedAt !== null
+        if (fields.reminders.length > 0 && !completed) requestReminderPermission()
+        return {
+          ...fields,
+          subtasks: [],
+          id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          createdAt: new Date(),
+          completed,
+          listId: fields.list ? findListByName(lists, fields.list)?.id : parent?.listId,
+          parentId: parent?.id,
+        }
       }
-      setTasks((prev) => [newTask, ...prev])
+
+      const newTask = toTask(parsed)
+      const children = parsed.subtasks.map((subtask) => toTask(subtask, newTask))
+      setTasks((prev) => [newTask, ...children, ...prev])
       return newTask
     },
-    []
+    [lists]
   )
 
   // Update a task
@@ -112,9 +231,9 @@ export function useTasks() {
     )
   }, [])
 
-  // Delete a task
+  // Delete a task along with its subtasks
   const deleteTask = useCallback((id: string) => {
-    setTasks((prev) => prev.filter((task) => task.id !== id))
+    setTasks((prev) => prev.filter((task) => task.id !== id && task.parentId !== id))
   }, [])
 
   // Toggle task completion
@@ -125,7 +244,7 @@ export function useTasks() {
           ? {
               ...task,
               completed: !task.completed,
-              completedAt: !task.completed ? new Date() : undefined,
+              completedAt: !task.completed ? new Date() : null,
             }
           : task
       )
@@ -139,23 +258,18 @@ export function useTasks() {
     const tomorrow = new Date(today)
     tomorrow.setDate(tomorrow.getDate() + 1)
 
-    return tasks.filter((task) => {
-      if (!task.date) return false
-      const taskDate = new Date(task.date)
-      return taskDate >= today && taskDate < tomorrow
-    })
+    return tasks
+      .filter((task) => {
+        if (!task.date) return false
+        const taskDate = new Date(task.date)
+        return taskDate >= today && taskDate < tomorrow
+      })
+      .sort(compareByStart)
   }, [tasks])
 
-  // Get overdue tasks
+  // Get overdue tasks (open tasks whose deadline has passed)
   const getOverdueTasks = useCallback(() => {
-    const now = new Date()
-    now.setHours(0, 0, 0, 0)
-
-    return tasks.filter((task) => {
-      if (!task.date || task.completed) return false
-      const taskDate = new Date(task.date)
-      return taskDate < now
-    })
+    return tasks.filter((task) => isPastDeadline(task))
   }, [tasks])
 
   // Get upcoming tasks
@@ -163,11 +277,13 @@ export function useTasks() {
     const now = new Date()
     now.setHours(0, 0, 0, 0)
 
-    return tasks.filter((task) => {
-      if (!task.date || task.completed) return false
-      const taskDate = new Date(task.date)
-      return taskDate >= now
-    })
+    return tasks
+      .filter((task) => {
+        if (!task.date || task.completed) return false
+        const taskDate = new Date(task.date)
+        return taskDate >= now
+      })
+      .sort(compareByStart)
   }, [tasks])
 
   // Get tasks by tag
@@ -187,6 +303,14 @@ export function useTasks() {
     return Array.from(tags).sort()
   }, [tasks])
 
+  // Get tag suggestions for a task being captured, learned from the stored tasks
+  const getTagSuggestions = useCallback(
+    (title: string, selected: string[] = []): TagSuggestion[] => {
+      return suggestTags(tasks, { title, selected })
+    },
+    [tasks]
+  )
+
   // Get inbox tasks (tasks without a listId, unsorted captures)
   const getInboxTasks = useCallback(() => {
     return tasks.filter((task) => !task.listId)
@@ -217,6 +341,33 @@ export function useTasks() {
     return newList
   }, [])
 
+  // Run a confirmed quick-add slash command ("/done buy milk") with the mutations above
+  const runCommand = useCallback(
+    (action: SlashCommandAction) => {
+      switch (action.kind) {
+        case 'complete':
+          toggleTask(action.task.id)
+          break
+        case 'move':
+          moveTaskToList(action.task.id, action.listId ?? createList(action.listName).id)
+          break
+        case 'tag':
+          updateTask(action.task.id, { tags: action.tags })
+          break
+        case 'snooze':
+          updateTask(action.task.id, action.updates)
+          break
+        case 'delete':
+          deleteTask(action.task.id)
+          break
+        case 'createList':
+          createList(action.name)
+          break
+      }
+    },
+    [toggleTask, moveTaskToList, createList, updateTask, deleteTask]
+  )
+
   // Update a list
   const updateList = useCallback((id: string, updates: Partial<TaskList>) => {
     setLists((prev) =>
@@ -246,11 +397,15 @@ export function useTasks() {
     getUpcomingTasks,
     getTasksByTag,
     getAllTags,
+    getTagSuggestions,
     getInboxTasks,
     getTasksByList,
     moveTaskToList,
     createList,
     updateList,
     deleteList,
+    runCommand,
+    reminderToasts,
+    dismissReminderToast,
   }
 }
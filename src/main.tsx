@@ -4,6 +4,12 @@ import { RouterProvider } from 'react-router-dom'
 import './index.css'
 import { router } from './routes'
 
+// The console helpers of the test files (runParserTests(), runParserBenchmark(), …),
+// registered in development only
+if (import.meta.env.DEV) {
+  Object.values(import.meta.glob('./utils/__tests__/*.ts')).forEach((load) => load())
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <RouterProvider router={router} />
@@ -10,34 +10,61 @@ import { ParserDemo } from '@/components/parser-demo'
 import type { ParsedTask } from '@/utils/natural-language-parser'
 import type { Task } from '@/hooks/use-tasks'
 import { formatDateForDisplay } from '@/utils/natural-language-parser'
+import { suggestTags } from '@/utils/tag-suggestions'
+import { useShortcuts } from '@/hooks/use-shortcuts'
+import { usePreferences } from '@/hooks/use-preferences'
+import { useMentions } from '@/hooks/use-mentions'
+import { useReminders } from '@/hooks/use-reminders'
+import { requestReminderPermission } from '@/utils/reminder-scheduler'
+import { ReminderToasts } from '@/components/reminder-toasts'
+import { SearchBar } from '@/components/search-bar'
+import { searchTasks } from '@/utils/search-query'
 
 export function HomePage() {
   const [tasks, setTasks] = useState<Task[]>([])
   const [viewMode, setViewMode] = useState<'date' | 'tag' | 'list'>('date')
   const [filterMode, setFilterMode] = useState<'all' | 'active' | 'completed'>('active')
+  const [searchQuery, setSearchQuery] = useState('')
+  const { shortcuts } = useShortcuts()
+  const { preferences, holidays, dateOrder } = usePreferences()
+  const { mentions, addMention } = useMentions()
+  // Home's tasks are not saved, so neither are its fired reminders: they must not
+  // touch the ones of the saved tasks
+  const { reminderToasts, dismissReminderToast } = useReminders(tasks, true, null)
+  const visibleTasks = searchQuery.trim()
+    ? searchTasks(tasks, searchQuery, [], { locale: preferences.locale })
+    : tasks
 
   const handleTaskAdd = (task: ParsedTask) => {
-    const newTask: Task = {
-      ...task,
+    const toTask = (fields: ParsedTask, parentId?: string): Task => ({
+      ...fields,
+      subtasks: [],
       id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       createdAt: new Date(),
-      completed: false,
+      completed: fields.completedAt !== null,
+      parentId,
+    })
+    const newTask = toTask(task)
+    const children = task.subtasks.map((subtask) => toTask(subtask, newTask.id))
+    if ([newTask, ...children].some((added) => added.reminders.length > 0 && !added.completed)) {
+      requestReminderPermission()
     }
-    setTasks([newTask, ...tasks])
+    // Functional updates, so a batch of pasted tasks added in one go keeps every task
+    setTasks((prev) => [newTask, ...children, ...prev])
   }
 
   const handleDeleteTask = (id: string) => {
-    setTasks(tasks.filter((task) => task.id !== id))
+    setTasks((prev) => prev.filter((task) => task.id !== id && task.parentId !== id))
   }
 
   const handleToggleTask = (id: string) => {
-    setTasks(
-      tasks.map((task) =>
+    setTasks((prev) =>
+      prev.map((task) =>
         task.id === id
           ? {
               ...task,
               completed: !task.completed,
-              completedAt: !task.completed ? new Date() : undefined,
+              completedAt: !task.completed ? new Date() : null,
             }
           : task
       )
@@ -45,8 +72,8 @@ export function HomePage() {
   }
 
   const handleEditTask = (id: string, updates: Partial<typeof tasks[0]>) => {
-    setTasks(
-      tasks.map((task) =>
+    setTasks((prev) =>
+      prev.map((task) =>
         task.id === id ? { ...task, ...updates } : task
       )
     )
@@ -72,7 +99,17 @@ export function HomePage() {
             <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">
               Quick Add
             </h2>
-            <QuickAddInput onTaskAdd={handleTaskAdd} />
+            <QuickAddInput
+              onTaskAdd={handleTaskAdd}
+              locale={preferences.locale}
+              dateOrder={dateOrder}
+              shortcuts={shortcuts}
+              workWeek={preferences.workWeek}
+              holidays={holidays}
+              mentions={mentions}
+              onAddMention={addMention}
+              getTagSuggestions={(title, selected) => suggestTags(tasks, { title, selected })}
+            />
           </div>
         </section>
 
@@ -132,14 +169,24 @@ export function HomePage() {
               </div>
             </div>
 
+            <div className="mb-4">
+              <SearchBar
+                value={searchQuery}
+                onChange={setSearchQuery}
+                resultCount={visibleTasks.length}
+                locale={preferences.locale}
+              />
+            </div>
+
             <div className="rounded-xl bg-white p-4 shadow-sm dark:bg-gray-900 dark:shadow-none dark:ring-1 dark:ring-gray-800">
               <TaskList
-                tasks={tasks}
+                tasks={visibleTasks}
                 onToggle={handleToggleTask}
                 onDelete={handleDeleteTask}
                 onEdit={handleEditTask}
                 groupBy={viewMode}
                 filter={filterMode}
+                locale={preferences.locale}
               />
             </div>
           </section>
@@ -206,7 +253,7 @@ export function HomePage() {
                 Dates
               </h4>
               <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
-                today | tomorrow | next monday | January 15 | in 3 days
+                today | tomorrow | next monday | this weekend | end of month | the 15th | 2026-11-02
               </code>
             </div>
             <div>
@@ -214,7 +261,7 @@ export function HomePage() {
                 Times
               </h4>
               <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
-                9:30am | 2:45pm | morning | afternoon | evening
+                9:30am | 2:45pm | morning | 2-3pm | from 9 to 11 | in 2 hours
               </code>
             </div>
             <div>
@@ -225,6 +272,110 @@ export function HomePage() {
                 #work #urgent | tag: personal, shopping
               </code>
             </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Plain text
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                'Tomorrow and Tomorrow' | \#123 | \tomorrow
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Deadlines
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                due friday | by april 15 | start monday due friday
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Business days &amp; holidays
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                in 3 business days | next workday | 2 weekdays after the 10th | christmas
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Other languages
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                pick one in Settings: morgen um 15 Uhr | mañana por la mañana | lundi prochain à 9h30
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Already done
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                done: called the bank yesterday 3pm | did: deploy 2 hours ago | ✅ gym last friday
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Subtasks
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                Plan trip friday #travel: book flights; reserve hotel; renew passport
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Reminders
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                remind me 1h before | remind me 2 days early | remind me at 4pm
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Shortcuts
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                your own triggers from Settings: standup | ;;gro | eod | asap
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Paste a list
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                one task per line: - bullets | 1. numbers | - [ ] checkboxes
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Lists
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                +Groceries | @Work | @"Side project"
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Contexts &amp; people
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                @home | @phone | @alice (people and contexts from Settings)
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Links
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                https://github.com/org/repo/pull/42 → PR #42 | sam@example.com | +1 555 123 4567
+              </code>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Priority
+              </h4>
+              <code className="mt-1 block rounded bg-gray-100 p-2 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                !high | !low | !!! | p1 | p2 | p3 | urgent
+              </code>
+            </div>
             <div>
               <h4 className="font-medium text-gray-900 dark:text-white">
                 Combined
@@ -250,6 +401,8 @@ export function HomePage() {
           <p>Fast, offline-first task management with privacy by design</p>
         </div>
       </footer>
+
+      <ReminderToasts toasts={reminderToasts} onDismiss={dismissReminderToast} />
     </div>
   )
 }
@@ -4,12 +4,24 @@
  */
 
 import { useState } from 'react'
-import { useTasks } from '@/hooks/use-tasks'
+import { isPastDeadline, useTasks } from '@/hooks/use-tasks'
+import { useShortcuts } from '@/hooks/use-shortcuts'
+import { usePreferences } from '@/hooks/use-preferences'
+import { useMentions } from '@/hooks/use-mentions'
 import { QuickAddInput } from '@/components/quick-add-input'
 import type { ParsedTask } from '@/utils/natural-language-parser'
 import type { Task } from '@/hooks/use-tasks'
-import { formatDateForDisplay } from '@/utils/natural-language-parser'
+import {
+  formatDateForDisplay,
+  formatEstimate,
+  formatRecurrence,
+  formatReminder,
+  formatTimeRange,
+} from '@/utils/natural-language-parser'
 import { MoveToListModal } from '@/components/move-to-list-modal'
+import { ReminderToasts } from '@/components/reminder-toasts'
+import { SearchBar } from '@/components/search-bar'
+import { searchTasks } from '@/utils/search-query'
 import { TaskDetailModal } from '@/components/task-detail-modal'
 
 export function InboxPage() {
@@ -24,14 +36,27 @@ export function InboxPage() {
     getInboxTasks,
     moveTaskToList,
     createList,
+    getTagSuggestions,
+    runCommand,
+    reminderToasts,
+    dismissReminderToast,
   } = useTasks()
+  const { shortcuts } = useShortcuts()
+  const { preferences, holidays, dateOrder } = usePreferences()
+  const { mentions, addMention } = useMentions()
 
   const [selectedTaskForMove, setSelectedTaskForMove] = useState<Task | null>(null)
   const [selectedTaskForEdit, setSelectedTaskForEdit] = useState<Task | null>(null)
   const [showNewListInput, setShowNewListInput] = useState(false)
   const [newListName, setNewListName] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
 
   const inboxTasks = getInboxTasks()
+  // A search looks through every task, not just the inbox
+  const searching = searchQuery.trim() !== ''
+  const visibleTasks = searching
+    ? searchTasks(tasks, searchQuery, lists, { locale: preferences.locale })
+    : inboxTasks
 
   const handleTaskAdd = (task: ParsedTask) => {
     addTask(task)
@@ -91,7 +116,21 @@ export function InboxPage() {
             <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">
               Quick Add Task
             </h2>
-            <QuickAddInput onTaskAdd={handleTaskAdd} />
+            <QuickAddInput
+              onTaskAdd={handleTaskAdd}
+              locale={preferences.locale}
+              dateOrder={dateOrder}
+              lists={lists}
+              onCreateList={createList}
+              shortcuts={shortcuts}
+              workWeek={preferences.workWeek}
+              holidays={holidays}
+              mentions={mentions}
+              onAddMention={addMention}
+              getTagSuggestions={getTagSuggestions}
+              tasks={tasks}
+              onCommand={runCommand}
+            />
           </div>
         </section>
 
@@ -102,17 +141,27 @@ export function InboxPage() {
             <section>
               <div className="mb-4 flex items-center justify-between">
                 <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-                  Inbox Tasks ({inboxTasks.length})
+                  {searching ? 'Search Results' : 'Inbox Tasks'} ({visibleTasks.length})
                 </h2>
               </div>
 
-              {inboxTasks.length > 0 ? (
+              <div className="mb-4">
+                <SearchBar
+                  value={searchQuery}
+                  onChange={setSearchQuery}
+                  resultCount={visibleTasks.length}
+                  locale={preferences.locale}
+                />
+              </div>
+
+              {visibleTasks.length > 0 ? (
                 <div className="rounded-xl bg-white shadow-sm dark:bg-gray-900 dark:shadow-none dark:ring-1 dark:ring-gray-800">
                   <div className="divide-y divide-gray-200 dark:divide-gray-800">
-                    {inboxTasks.map((task) => (
+                    {visibleTasks.map((task) => (
                       <TaskInboxItem
                         key={task.id}
                         task={task}
+                        locale={preferences.locale}
                         onToggle={() => handleToggleTask(task.id)}
                         onDelete={() => handleDeleteTask(task.id)}
                         onMove={() => setSelectedTaskForMove(task)}
@@ -124,7 +173,9 @@ export function InboxPage() {
               ) : (
                 <div className="rounded-lg bg-gray-50 p-8 text-center dark:bg-gray-900">
                   <p className="text-sm text-gray-500 dark:text-gray-400">
-                    ✨ Your inbox is empty! Add a task to get started.
+                    {searching
+                      ? 'No tasks match your search.'
+                      : '✨ Your inbox is empty! Add a task to get started.'}
                   </p>
                 </div>
               )}
@@ -245,6 +296,8 @@ export function InboxPage() {
           onSave={(updates) => handleEditTask(selectedTaskForEdit.id, updates)}
         />
       )}
+
+      <ReminderToasts toasts={reminderToasts} onDismiss={dismissReminderToast} />
     </div>
   )
 }
@@ -254,12 +307,14 @@ export function InboxPage() {
  */
 function TaskInboxItem({
   task,
+  locale,
   onToggle,
   onDelete,
   onMove,
   onEdit,
 }: {
   task: Task
+  locale?: string
   onToggle?: () => void
   onDelete?: () => void
   onMove?: () => void
@@ -337,10 +392,21 @@ function TaskInboxItem({
               {task.priority === 'high' ? '🔴' : '📊'} {task.priority}
             </span>
           )}
-          {task.date && <span>📅 {formatDateForDisplay(task.date)}</span>}
-          {task.time && <span>🕐 {task.time}</span>}
-          {task.recurrence && task.recurrence !== 'none' && (
-            <span>🔄 {task.recurrence}</span>
+          {task.scheduledDate && (
+            <span>📅 {formatDateForDisplay(task.scheduledDate, { locale })}</span>
+          )}
+          {task.deadline && (
+            <span className={isPastDeadline(task) ? 'font-medium text-red-600 dark:text-red-400' : ''}>
+              ⏰ due {formatDateForDisplay(task.deadline, { locale })}
+            </span>
+          )}
+          {task.start && !task.allDay && <span>🕐 {formatTimeRange(task.start, task.end)}</span>}
+          {task.estimateMinutes && <span>⏱️ {formatEstimate(task.estimateMinutes)}</span>}
+          {task.recurrence && (
+            <span>🔄 {formatRecurrence(task.recurrence, { locale })}</span>
+          )}
+          {task.reminders.length > 0 && (
+            <span>🔔 {task.reminders.map(formatReminder).join(', ')}</span>
           )}
         </div>
       </div>
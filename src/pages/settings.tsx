@@ -0,0 +1,715 @@
+/**
+ * Settings Page
+ * Manages user-defined quick-add shortcuts (text expansions and keyword → field
+ * mappings), the people and contexts "@name" mentions refer to, the language
+ * dates are typed and shown in, and the calendar dates are read against: the work
+ * week and holidays
+ */
+
+import { useState } from 'react'
+import { useShortcuts, type NewShortcutRule } from '@/hooks/use-shortcuts'
+import { usePreferences, type Preferences } from '@/hooks/use-preferences'
+import { useMentions, type MentionKind } from '@/hooks/use-mentions'
+import {
+  formatDateForDisplay,
+  formatRecurrence,
+  getShortcutText,
+  parseDatePhrase,
+  parseTaskInput,
+  type DateOptions,
+  type DateOrder,
+  type ShortcutRule,
+  type TaskPriority,
+} from '@/utils/natural-language-parser'
+import { HOLIDAY_CALENDARS, getNextHolidayDate, type HolidayRule } from '@/utils/holidays'
+import { LOCALE_PACKS, getLocalePack } from '@/utils/locales'
+
+interface ShortcutDraft {
+  kind: ShortcutRule['kind']
+  trigger: string
+  expansion: string
+  date: string
+  time: string
+  priority: TaskPriority | ''
+  tags: string
+  list: string
+}
+
+const EMPTY_DRAFT: ShortcutDraft = {
+  kind: 'expansion',
+  trigger: '',
+  expansion: '',
+  date: '',
+  time: '',
+  priority: '',
+  tags: '',
+  list: '',
+}
+
+// Work week toggles, Monday first
+const WEEKDAY_OPTIONS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+]
+
+// How each date order writes 3 April 2027
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  MDY: 'MM/DD/YYYY',
+  DMY: 'DD/MM/YYYY',
+}
+
+const EXAMPLES = [
+  'standup → Standup weekdays 9:30 #work +Team',
+  ';;gro → +Groceries #shopping',
+  'eod → today 17:00',
+  'asap → priority high',
+]
+
+// Shared by every field of the shortcut form
+const inputClassName =
+  'mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-[#4B2FFF] focus:outline-none focus:ring-1 focus:ring-[#4B2FFF] dark:border-gray-600 dark:bg-gray-800 dark:text-white'
+
+export function SettingsPage() {
+  const { shortcuts, addShortcut, updateShortcut, deleteShortcut } = useShortcuts()
+  const [draft, setDraft] = useState<ShortcutDraft>(EMPTY_DRAFT)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const rule = toRule(draft)
+  const duplicate = shortcuts.some(
+    (shortcut) =>
+      shortcut.id !== editingId &&
+      shortcut.trigger.toLowerCase() === draft.trigger.trim().toLowerCase()
+  )
+  const canSave = rule !== null && !duplicate
+  const preview = rule
+    ? parseTaskInput(rule.trigger, { shortcuts: [{ ...rule, id: 'preview' }] })
+    : null
+
+  const updateDraft = (updates: Partial<ShortcutDraft>) => {
+    setDraft((prev) => ({ ...prev, ...updates }))
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!rule || !canSave) return
+    if (editingId) {
+      updateShortcut(editingId, rule)
+    } else {
+      addShortcut(rule)
+    }
+    setDraft(EMPTY_DRAFT)
+    setEditingId(null)
+  }
+
+  const handleEdit = (shortcut: ShortcutRule) => {
+    setEditingId(shortcut.id)
+    setDraft(
+      shortcut.kind === 'expansion'
+        ? { ...EMPTY_DRAFT, trigger: shortcut.trigger, expansion: shortcut.expansion }
+        : {
+            ...EMPTY_DRAFT,
+            kind: 'keyword',
+            trigger: shortcut.trigger,
+            date: shortcut.fields.date ?? '',
+            time: shortcut.fields.time ?? '',
+            priority: shortcut.fields.priority ?? '',
+            tags: (shortcut.fields.tags ?? []).join(', '),
+            list: shortcut.fields.list ?? '',
+          }
+    )
+  }
+
+  const handleCancel = () => {
+    setDraft(EMPTY_DRAFT)
+    setEditingId(null)
+  }
+
+  const handleDelete = (id: string) => {
+    if (confirm('Delete this shortcut?')) {
+      deleteShortcut(id)
+      if (editingId === id) handleCancel()
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white to-gray-50 dark:from-gray-950 dark:to-gray-900">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-950">
+        <div className="mx-auto max-w-2xl px-4 py-6 sm:px-6 lg:px-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">⚙️ Settings</h1>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            Shortcuts expand in quick add before anything else is recognized
+          </p>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="mx-auto max-w-2xl space-y-8 px-4 py-8 sm:px-6 lg:px-8">
+        {/* Shortcut Form */}
+        <section className="rounded-xl bg-white p-6 shadow-sm dark:bg-gray-900 dark:shadow-none dark:ring-1 dark:ring-gray-800">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">
+            {editingId ? 'Edit Shortcut' : 'New Shortcut'}
+          </h2>
+          <form onSubmit={handleSave} className="space-y-4">
+            {/* Kind */}
+            <div className="grid grid-cols-2 gap-2">
+              {(['expansion', 'keyword'] as const).map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => updateDraft({ kind })}
+                  className={`rounded px-3 py-2 text-sm transition-colors ${
+                    draft.kind === kind
+                      ? 'bg-[#4B2FFF] text-white'
+                      : 'bg-gray-200 text-gray-900 hover:bg-gray-300 dark:bg-gray-800 dark:text-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {kind === 'expansion' ? '✏️ Text expansion' : '🔑 Keyword → fields'}
+                </button>
+              ))}
+            </div>
+
+            {/* Trigger */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Trigger
+              </label>
+              <input
+                type="text"
+                value={draft.trigger}
+                onChange={(e) => updateDraft({ trigger: e.target.value.replace(/\s/g, '') })}
+                placeholder="standup, ;;gro, eod..."
+                className={inputClassName}
+              />
+              {duplicate && (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                  Another shortcut already uses this trigger
+                </p>
+              )}
+            </div>
+
+            {draft.kind === 'expansion' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Expands to
+                </label>
+                <input
+                  type="text"
+                  value={draft.expansion}
+                  onChange={(e) => updateDraft({ expansion: e.target.value })}
+                  placeholder="Standup weekdays 9:30 #work +Team"
+                  className={inputClassName}
+                />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    📅 Date
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.date}
+                    onChange={(e) => updateDraft({ date: e.target.value })}
+                    placeholder="today, friday..."
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    🕐 Time
+                  </label>
+                  <input
+                    type="time"
+                    value={draft.time}
+                    onChange={(e) => updateDraft({ time: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    🚩 Priority
+                  </label>
+                  <select
+                    value={draft.priority}
+                    onChange={(e) => updateDraft({ priority: e.target.value as TaskPriority | '' })}
+                    className={inputClassName}
+                  >
+                    <option value="">None</option>
+                    <option value="high">High</option>
+                    <option value="medium">Medium</option>
+                    <option value="low">Low</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    📋 List
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.list}
+                    onChange={(e) => updateDraft({ list: e.target.value })}
+                    placeholder="Groceries"
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    🏷️ Tags
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.tags}
+                    onChange={(e) => updateDraft({ tags: e.target.value })}
+                    placeholder="work, urgent"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Preview */}
+            {rule && preview && (
+              <div className="rounded-lg bg-gray-50 p-3 text-xs text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                <p>
+                  <span className="font-semibold">⚡ {rule.trigger}</span> →{' '}
+                  {getShortcutText({ ...rule, id: 'preview' })}
+                </p>
+                <p className="mt-1 flex flex-wrap gap-3 text-gray-500 dark:text-gray-400">
+                  {preview.title !== 'New Task' && <span>{preview.title}</span>}
+                  {preview.date && <span>📅 {formatDateForDisplay(preview.date)}</span>}
+                  {preview.time && <span>🕐 {preview.time}</span>}
+                  {preview.recurrence && <span>🔄 {formatRecurrence(preview.recurrence)}</span>}
+                  {preview.priority && <span>🚩 {preview.priority}</span>}
+                  {preview.list && <span>📋 {preview.list}</span>}
+                  {preview.tags.map((tag) => (
+                    <span key={tag}>#{tag}</span>
+                  ))}
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={!canSave}
+                className="flex-1 rounded-lg bg-[#4B2FFF] px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-[#3a23cc] disabled:opacity-50"
+              >
+                {editingId ? 'Save Shortcut' : '+ Add Shortcut'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </section>
+
+        {/* Shortcut List */}
+        <section>
+          <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">
+            Shortcuts ({shortcuts.length})
+          </h2>
+          {shortcuts.length > 0 ? (
+            <div className="divide-y divide-gray-200 rounded-xl bg-white shadow-sm dark:divide-gray-800 dark:bg-gray-900 dark:shadow-none dark:ring-1 dark:ring-gray-800">
+              {shortcuts.map((shortcut) => (
+                <div key={shortcut.id} className="flex items-center gap-3 p-4">
+                  <code className="rounded bg-yellow-100 px-2 py-1 text-sm text-gray-900 dark:bg-yellow-900 dark:text-gray-100">
+                    {shortcut.trigger}
+                  </code>
+                  <span className="min-w-0 flex-1 truncate text-sm text-gray-700 dark:text-gray-300">
+                    → {getShortcutText(shortcut)}
+                  </span>
+                  <button
+                    onClick={() => handleEdit(shortcut)}
+                    className="text-sm text-gray-500 hover:text-[#4B2FFF] dark:text-gray-400"
+                    aria-label={`Edit shortcut ${shortcut.trigger}`}
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    onClick={() => handleDelete(shortcut.id)}
+                    className="text-sm text-gray-500 hover:text-red-600 dark:text-gray-400"
+                    aria-label={`Delete shortcut ${shortcut.trigger}`}
+                  >
+                    🗑️
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="rounded-lg bg-gray-50 p-6 dark:bg-gray-900">
+              <p className="text-sm text-gray-500 dark:text-gray-400">No shortcuts yet. Some ideas:</p>
+              <ul className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                {EXAMPLES.map((example) => (
+                  <li key={example}>• {example}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+
+        <MentionSettings />
+
+        <CalendarSettings />
+      </main>
+    </div>
+  )
+}
+
+/**
+ * The people ("@alice") and contexts ("@home") that mentions are told apart by
+ */
+function MentionSettings() {
+  const { mentions, addMention, removeMention } = useMentions()
+  const [name, setName] = useState('')
+  const [kind, setKind] = useState<MentionKind>('people')
+
+  const trimmed = name.trim().replace(/^@/, '')
+  const taken = [...mentions.people, ...mentions.contexts].some(
+    (known) => known.toLowerCase() === trimmed.toLowerCase()
+  )
+  const valid = /^[a-zA-Z][\w-]*$/.test(trimmed)
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!valid || taken) return
+    addMention(kind, trimmed)
+    setName('')
+  }
+
+  const groups: Array<{ kind: MentionKind; title: string; icon: string; chip: string }> = [
+    { kind: 'people', title: 'People', icon: '👤', chip: 'bg-pink-100 dark:bg-pink-900' },
+    { kind: 'contexts', title: 'Contexts', icon: '📍', chip: 'bg-cyan-100 dark:bg-cyan-900' },
+  ]
+
+  return (
+    <section className="rounded-xl bg-white p-6 shadow-sm dark:bg-gray-900 dark:shadow-none dark:ring-1 dark:ring-gray-800">
+      <h2 className="mb-1 text-lg font-semibold text-gray-900 dark:text-white">
+        People &amp; Contexts
+      </h2>
+      <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+        &quot;@name&quot; assigns a task to a person or gives it a context; any other @name is a
+        list
+      </p>
+      <div className="space-y-4">
+        {groups.map((group) => (
+          <div key={group.kind}>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              {group.title}
+            </span>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {mentions[group.kind].length === 0 && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">None yet</span>
+              )}
+              {mentions[group.kind].map((known) => (
+                <span
+                  key={known}
+                  className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-xs text-gray-900 dark:text-gray-100 ${group.chip}`}
+                >
+                  {group.icon} @{known}
+                  <button
+                    onClick={() => removeMention(group.kind, known)}
+                    className="ml-1 hover:text-red-600"
+                    aria-label={`Remove @${known}`}
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2">
+          <div className="min-w-0 flex-1">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="@alice or @garage"
+              aria-label="Person or context name"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as MentionKind)}
+              aria-label="Kind"
+              className={inputClassName}
+            >
+              <option value="people">Person</option>
+              <option value="contexts">Context</option>
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={!valid || taken}
+            className="rounded-lg bg-[#4B2FFF] px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-[#3a23cc] disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+        {trimmed && taken && (
+          <p className="text-xs text-red-600 dark:text-red-400">@{trimmed} is already registered</p>
+        )}
+      </div>
+    </section>
+  )
+}
+
+/**
+ * Language, date order, work week, holiday calendar and custom holidays
+ */
+function CalendarSettings() {
+  const { preferences, holidays, updatePreferences, addCustomHoliday, deleteCustomHoliday } =
+    usePreferences()
+  const [holidayName, setHolidayName] = useState('')
+  const [holidayDate, setHolidayDate] = useState('')
+  const [everyYear, setEveryYear] = useState(true)
+
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const dateOptions = { workWeek: preferences.workWeek, holidays, locale: preferences.locale }
+  const { completions, dateOrder: localeDateOrder } = getLocalePack(preferences.locale)
+  const nextWorkday = parseDatePhrase('next workday', dateOptions)
+  const inThreeWorkdays = parseDatePhrase('in 3 business days', dateOptions)
+
+  const toggleWorkday = (day: number) => {
+    const workWeek = preferences.workWeek.includes(day)
+      ? preferences.workWeek.filter((d) => d !== day)
+      : [...preferences.workWeek, day].sort()
+    // At least one working day, or business days could never be reached
+    if (workWeek.length > 0) updatePreferences({ workWeek })
+  }
+
+  const handleAddHoliday = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!holidayName.trim() || !holidayDate) return
+    const [year, month, day] = holidayDate.split('-').map(Number)
+    addCustomHoliday({
+      name: holidayName.trim(),
+      month,
+      day,
+      ...(!everyYear && { year }),
+    })
+    setHolidayName('')
+    setHolidayDate('')
+  }
+
+  return (
+    <section className="rounded-xl bg-white p-6 shadow-sm dark:bg-gray-900 dark:shadow-none dark:ring-1 dark:ring-gray-800">
+      <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">
+        Language &amp; Calendar
+      </h2>
+      <div className="space-y-6">
+        {/* Locale */}
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Language
+          <select
+            value={preferences.locale}
+            onChange={(e) => updatePreferences({ locale: e.target.value })}
+            className={inputClassName}
+          >
+            {LOCALE_PACKS.map((pack) => (
+              <option key={pack.id} value={pack.id}>
+                {pack.name}
+              </option>
+            ))}
+          </select>
+          <span className="mt-1 block text-xs font-normal text-gray-500 dark:text-gray-400">
+            Dates are typed and shown in this language (&quot;
+            {completions.dates.slice(0, 3).join('", "')}&quot;); tags, priorities, recurrence and
+            reminders keep their English syntax
+          </span>
+        </label>
+
+        {/* Date order */}
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Numeric dates
+          <select
+            value={preferences.dateOrder}
+            onChange={(e) =>
+              updatePreferences({ dateOrder: e.target.value as Preferences['dateOrder'] })
+            }
+            className={inputClassName}
+          >
+            <option value="auto">As in the language ({DATE_ORDER_LABELS[localeDateOrder]})</option>
+            <option value="MDY">{DATE_ORDER_LABELS.MDY}</option>
+            <option value="DMY">{DATE_ORDER_LABELS.DMY}</option>
+          </select>
+          <span className="mt-1 block text-xs font-normal text-gray-500 dark:text-gray-400">
+            How quick add reads a date like 03/04/2027
+          </span>
+        </label>
+
+        {/* Work week */}
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Work week
+          </span>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {WEEKDAY_OPTIONS.map(({ day, label }) => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWorkday(day)}
+                aria-pressed={preferences.workWeek.includes(day)}
+                className={`rounded-lg px-3 py-1.5 text-sm font-medium transition-colors ${
+                  preferences.workWeek.includes(day)
+                    ? 'bg-[#4B2FFF] text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            next workday → {nextWorkday ? formatDateForDisplay(nextWorkday, dateOptions) : '—'} ·
+            in 3 business days →{' '}
+            {inThreeWorkdays ? formatDateForDisplay(inThreeWorkdays, dateOptions) : '—'}
+          </p>
+        </div>
+
+        {/* Holiday calendar */}
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Holidays
+          <select
+            value={preferences.holidayCalendar}
+            onChange={(e) => updatePreferences({ holidayCalendar: e.target.value })}
+            className={inputClassName}
+          >
+            {HOLIDAY_CALENDARS.map((calendar) => (
+              <option key={calendar.id} value={calendar.id}>
+                {calendar.name}
+              </option>
+            ))}
+            <option value="none">None</option>
+          </select>
+          <span className="mt-1 block text-xs font-normal text-gray-500 dark:text-gray-400">
+            Days off are skipped by business days; every holiday can be named in dates
+            (&quot;christmas&quot;, &quot;thanksgiving&quot;)
+          </span>
+        </label>
+
+        {/* Custom holidays */}
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Your own days off
+          </span>
+          {preferences.customHolidays.length > 0 && (
+            <ul className="mt-2 divide-y divide-gray-200 rounded-lg border border-gray-200 dark:divide-gray-800 dark:border-gray-800">
+              {preferences.customHolidays.map((holiday, index) => (
+                <li key={`${holiday.name}-${index}`} className="flex items-center gap-3 px-3 py-2">
+                  <span className="flex-1 text-sm text-gray-900 dark:text-gray-100">
+                    {holiday.name}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {describeCustomHoliday(holiday, today, dateOptions)}
+                  </span>
+                  <button
+                    onClick={() => deleteCustomHoliday(index)}
+                    className="text-sm text-gray-500 hover:text-red-600 dark:text-gray-400"
+                    aria-label={`Delete holiday ${holiday.name}`}
+                  >
+                    🗑️
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAddHoliday} className="mt-2 flex flex-wrap items-end gap-2">
+            <div className="min-w-0 flex-1">
+              <input
+                type="text"
+                value={holidayName}
+                onChange={(e) => setHolidayName(e.target.value)}
+                placeholder="Company offsite"
+                aria-label="Holiday name"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <input
+                type="date"
+                value={holidayDate}
+                onChange={(e) => setHolidayDate(e.target.value)}
+                aria-label="Holiday date"
+                className={inputClassName}
+              />
+            </div>
+            <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={everyYear}
+                onChange={(e) => setEveryYear(e.target.checked)}
+                className="rounded border-gray-300 text-[#4B2FFF] focus:ring-[#4B2FFF]"
+              />
+              Every year
+            </label>
+            <button
+              type="submit"
+              disabled={!holidayName.trim() || !holidayDate}
+              className="rounded-lg bg-[#4B2FFF] px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-[#3a23cc] disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+/**
+ * "Every year · next Fri, Dec 4" or the one-off date of a custom holiday
+ */
+function describeCustomHoliday(
+  holiday: HolidayRule,
+  today: Date,
+  options: DateOptions
+): string {
+  const next = getNextHolidayDate(holiday, today)
+  const nextLabel = next ? formatDateForDisplay(next, options) : 'past'
+  return 'year' in holiday && holiday.year !== undefined
+    ? nextLabel
+    : `Every year · next ${nextLabel}`
+}
+
+/**
+ * Turn the form into a rule, or null while it is incomplete
+ */
+function toRule(draft: ShortcutDraft): NewShortcutRule | null {
+  const trigger = draft.trigger.trim()
+  if (!trigger) return null
+
+  if (draft.kind === 'expansion') {
+    const expansion = draft.expansion.trim()
+    return expansion ? { kind: 'expansion', trigger, expansion } : null
+  }
+
+  const tags = draft.tags
+    .split(',')
+    .map((tag) => tag.trim().replace(/^#/, '').toLowerCase())
+    .filter(Boolean)
+  const fields = {
+    ...(draft.date.trim() && { date: draft.date.trim() }),
+    ...(draft.time && { time: draft.time }),
+    ...(draft.priority && { priority: draft.priority }),
+    ...(tags.length > 0 && { tags }),
+    ...(draft.list.trim() && { list: draft.list.trim() }),
+  }
+  return Object.keys(fields).length > 0 ? { kind: 'keyword', trigger, fields } : null
+}
@@ -2,6 +2,7 @@ import { createBrowserRouter } from 'react-router-dom'
 import App from '@/App'
 import { HomePage } from '@/pages/home'
 import { InboxPage } from '@/pages/inbox'
+import { SettingsPage } from '@/pages/settings'
 
 /**
  * Get basename dynamically from window location or environment
@@ -58,6 +59,10 @@ export const router = createBrowserRouter(
           path: 'inbox',
           element: <InboxPage />,
         },
+        {
+          path: 'settings',
+          element: <SettingsPage />,
+        },
       ],
     },
   ],
@@ -0,0 +1,82 @@
+/**
+ * Autocomplete Engine Tests
+ * Demonstrates completing the token under the caret
+ */
+
+import { applyCompletion, getCompletions } from '@/utils/autocomplete'
+
+const now = new Date(2026, 9, 19, 10, 0)
+const lists = ['Groceries', 'Side project', 'Work']
+const people = ['Alice']
+const contexts = ['home', 'phone']
+
+// Test cases: the caret sits at the end of the input unless `caret` is given
+export const testCases = [
+  { input: 'Call mom tom', expected: { first: 'tomorrow', result: 'Call mom tomorrow ' } },
+  { input: 'Meet nex fr', expected: { first: 'next friday', result: 'Meet next friday ' } },
+  { input: 'Gym mor', expected: { first: 'morning', result: 'Gym morning ' } },
+  { input: 'Pay rent end of mo', expected: { first: 'end of month', result: 'Pay rent end of month ' } },
+  { input: 'Write tmrw', expected: { first: 'tomorrow', result: 'Write tomorrow ' } },
+  { input: 'Report #wo', expected: { first: '#work', result: 'Report #work ' } },
+  { input: 'Buy milk +gro', expected: { first: 'Groceries', result: 'Buy milk +Groceries ' } },
+  { input: 'Sketch +sid', expected: { first: 'Side project', result: 'Sketch +"Side project" ' } },
+  { input: 'Review draft @al', expected: { first: '@Alice', result: 'Review draft @Alice ' } },
+  { input: 'Call plumber @ph', expected: { first: '@phone', result: 'Call plumber @phone ' } },
+  { input: 'Standup +wo', expected: { first: 'Work', result: 'Standup +Work ' } },
+  { input: 'Fix crash !hi', expected: { first: 'high', result: 'Fix crash !high ' } },
+  { input: 'Call at 3', expected: { first: '3pm', result: 'Call at 3pm ' } },
+  { input: 'Call at 9', expected: { first: '9am', result: 'Call at 9am ' } },
+  {
+    input: 'Review tom #work',
+    caret: 10,
+    expected: { first: 'tomorrow', result: 'Review tomorrow #work' },
+  },
+  // Phrases come from the locale pack
+  { input: 'Arzt über', locale: 'de', expected: { first: 'übermorgen', result: 'Arzt übermorgen ' } },
+  { input: 'Dîner ce so', locale: 'fr', expected: { first: 'ce soir', result: 'Dîner ce soir ' } },
+  // Nothing to complete: common short words, finished tokens, plain numbers
+  { input: 'Talk to', expected: { first: null } },
+  { input: 'Buy tomorrow', expected: { first: null } },
+  { input: 'Read chapter 9', expected: { first: null } },
+  { input: 'Fix eo', expected: { first: null } },
+]
+
+// Run tests
+export function runTests(): void {
+  console.log('🧪 Running Autocomplete Tests\n')
+
+  testCases.forEach((testCase, index) => {
+    const caret = testCase.caret ?? testCase.input.length
+    const completions = getCompletions(testCase.input, caret, {
+      now,
+      locale: testCase.locale,
+      lists,
+      people,
+      contexts,
+    })
+    const first = completions[0] ?? null
+
+    console.log(`Test ${index + 1}: "${testCase.input}"`)
+    console.log(`  Completions: ${completions.map((c) => c.label).join(', ') || 'None'}`)
+
+    const firstMatch = (first?.label ?? null) === testCase.expected.first
+    const result = first ? applyCompletion(testCase.input, first).value : null
+    const resultMatch =
+      testCase.expected.result === undefined || result === testCase.expected.result
+
+    const passed = firstMatch && resultMatch
+    console.log(`  Result: ${passed ? '✅ PASS' : '❌ FAIL'}`)
+
+    if (!passed) {
+      if (!firstMatch) console.log(`    - First completion mismatch: expected "${testCase.expected.first}", got "${first?.label ?? null}"`)
+      if (!resultMatch) console.log(`    - Rewrite mismatch: expected "${testCase.expected.result}", got "${result}"`)
+    }
+
+    console.log()
+  })
+}
+
+// Export for use in console
+if (typeof window !== 'undefined') {
+  Object.assign(window, { runAutocompleteTests: runTests })
+}
@@ -0,0 +1,97 @@
+/**
+ * Batch Capture Tests
+ * Demonstrates splitting pasted lists and meeting notes into tasks
+ */
+
+import { parseBatchInput } from '@/utils/batch-capture'
+
+const now = new Date(2026, 9, 19, 10, 0)
+
+// Test cases: `expected` holds one entry per captured line
+export const testCases = [
+  {
+    input: '- Buy milk tomorrow #shopping\n- Call mom\n\n* Book flights !high',
+    expected: [
+      { title: 'Buy milk', tags: ['shopping'] },
+      { title: 'Call mom' },
+      { title: 'Book flights', priority: 'high' },
+    ],
+  },
+  {
+    input: '1. Draft agenda friday\n2) Send invite +Team',
+    expected: [
+      { title: 'Draft agenda', date: 'Fri, Oct 23' },
+      { title: 'Send invite', list: 'Team' },
+    ],
+  },
+  {
+    input: 'Action items:\n- [ ] Update roadmap by wednesday\n- [x] Share slides',
+    expected: [
+      { title: 'Action items:', heading: true },
+      { title: 'Update roadmap', date: 'Wed, Oct 21' },
+      { title: 'Share slides', checked: true },
+    ],
+  },
+  {
+    input: '## Notes\n[ ] Renew passport jan 15\n  Pay rent on the 1st  ',
+    expected: [
+      { title: '## Notes', heading: true },
+      { title: 'Renew passport', date: 'Fri, Jan 15' },
+      { title: 'Pay rent', date: 'Sun, Nov 1' },
+    ],
+  },
+]
+
+// Run tests
+export function runTests(): void {
+  console.log('🧪 Running Batch Capture Tests\n')
+
+  testCases.forEach((testCase, index) => {
+    const items = parseBatchInput(testCase.input, { now })
+
+    console.log(`Test ${index + 1}: ${JSON.stringify(testCase.input)}`)
+    const problems: string[] = []
+    if (items.length !== testCase.expected.length) {
+      problems.push(`expected ${testCase.expected.length} items, got ${items.length}`)
+    }
+
+    testCase.expected.forEach((expected, i) => {
+      const item = items[i]
+      if (!item) return
+      const date = item.parsed.date?.toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+      })
+      console.log(`  ${i + 1}. ${item.parsed.title}${date ? ` (${date})` : ''}`)
+
+      if (item.parsed.title !== expected.title) problems.push(`title "${item.parsed.title}"`)
+      if ('date' in expected && date !== expected.date) problems.push(`date ${date}`)
+      if ('tags' in expected && item.parsed.tags.join(',') !== expected.tags?.join(',')) {
+        problems.push(`tags ${item.parsed.tags.join(',')}`)
+      }
+      if ('priority' in expected && item.parsed.priority !== expected.priority) {
+        problems.push(`priority ${item.parsed.priority}`)
+      }
+      if ('list' in expected && item.parsed.list !== expected.list) {
+        problems.push(`list ${item.parsed.list}`)
+      }
+      if (item.checked !== ('checked' in expected && !!expected.checked)) {
+        problems.push(`checked ${item.checked}`)
+      }
+      if (item.heading !== ('heading' in expected && !!expected.heading)) {
+        problems.push(`heading ${item.heading}`)
+      }
+    })
+
+    const passed = problems.length === 0
+    console.log(`  Result: ${passed ? '✅ PASS' : '❌ FAIL'}`)
+    problems.forEach((problem) => console.log(`    - Mismatch: ${problem}`))
+    console.log()
+  })
+}
+
+// Export for use in console
+if (typeof window !== 'undefined') {
+  Object.assign(window, { runBatchCaptureTests: runTests })
+}
@@ -0,0 +1,141 @@
+/**
+ * Natural Language Parser Benchmark
+ * Times parseTaskInput over a corpus of realistic quick-add inputs, and every
+ * keystroke of a few of them as QuickAddInput parses while the user types
+ */
+
+import { parseTaskInput, type ShortcutRule } from '@/utils/natural-language-parser'
+
+const TITLES = [
+  'Buy oat milk',
+  'Review quarterly report',
+  'Call the dentist',
+  'Send invoice to Acme',
+  'Water the plants',
+  'Prepare slides for the all-hands',
+  'Renew passport',
+  'Book flights to Lisbon',
+  'Fix login redirect bug',
+  'Pick up dry cleaning',
+  'Email Sarah about the offsite',
+  'Read "Tomorrow and Tomorrow" chapter 3',
+  'Pay rent',
+  'Standup notes',
+  'Clean the garage',
+  'Update résumé',
+]
+
+const DATES = [
+  '',
+  'today',
+  'tomorrow',
+  'friday',
+  'next monday',
+  'on thursday',
+  'jan 15',
+  'march 3rd',
+  '12/24',
+  'in 3 days',
+  'next week',
+  'end of month',
+  'in 2 business days',
+  'by friday',
+  'due jan 15',
+  'before monday',
+  'last friday',
+  '3 days ago',
+]
+
+const TIMES = ['', 'at 5pm', '9:30', '2-3pm', 'from 9 to 11', 'tonight', 'at noon', 'at 5']
+
+const EXTRAS = [
+  '',
+  '#work',
+  '#home #urgent',
+  '!high',
+  'p2',
+  '+Groceries',
+  '@"Side project"',
+  '@phone',
+  '~30m',
+  'for 2h',
+  'every weekday',
+  'every other week',
+  'remind me 1h before',
+  'https://github.com/acme/app/pull/42',
+  'bob@example.com',
+  'done:',
+  ';;gro',
+]
+
+const SHORTCUTS: ShortcutRule[] = [
+  { id: 'gro', kind: 'expansion', trigger: ';;gro', expansion: '+Groceries #shopping' },
+  { id: 'eod', kind: 'keyword', trigger: 'eod', fields: { date: 'today', time: '17:00' } },
+]
+
+// Deterministic pseudo-random numbers so every run times the same corpus
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+/**
+ * Build `size` quick-add inputs from a title and a random mix of dates, times and
+ * extras, in a random order; some are inline subtask lists
+ */
+export function buildCorpus(size: number, seed = 42): string[] {
+  const random = createRandom(seed)
+  const pick = (words: string[]) => words[Math.floor(random() * words.length)]
+
+  return Array.from({ length: size }, () => {
+    const extra = pick(EXTRAS)
+    const words = [pick(DATES), pick(TIMES), extra === 'done:' ? '' : extra]
+      .filter(Boolean)
+      .sort(() => random() - 0.5)
+    const title =
+      random() < 0.1 ? `${pick(TITLES)}: ${pick(TITLES)}; ${pick(TITLES)}` : pick(TITLES)
+    return [extra === 'done:' ? extra : '', title, ...words].filter(Boolean).join(' ')
+  })
+}
+
+// Time a function over every input, in milliseconds
+function time(inputs: string[], parse: (input: string) => unknown): number {
+  const start = performance.now()
+  inputs.forEach(parse)
+  return performance.now() - start
+}
+
+// Run benchmark
+export function runBenchmark(size = 10000): void {
+  console.log('⏱️ Running Natural Language Parser Benchmark\n')
+
+  const now = new Date(2026, 9, 19, 10, 0)
+  const corpus = buildCorpus(size)
+  const parse = (input: string) => parseTaskInput(input, { now, shortcuts: SHORTCUTS })
+
+  // The first pass compiles each locale's patterns; warm up so it is not counted
+  time(corpus.slice(0, 100), parse)
+
+  const total = time(corpus, parse)
+  console.log(`Corpus: ${corpus.length} inputs`)
+  console.log(`  Total: ${total.toFixed(0)} ms`)
+  console.log(`  Per input: ${((total / corpus.length) * 1000).toFixed(1)} µs`)
+
+  // Every prefix of the input, as it is parsed while typed in quick add
+  const typed = corpus
+    .slice(0, 200)
+    .flatMap((input) => Array.from({ length: input.length }, (_, i) => input.slice(0, i + 1)))
+  const typing = time(typed, parse)
+  console.log(`Keystrokes: ${typed.length} prefixes of 200 inputs`)
+  console.log(`  Per keystroke: ${((typing / typed.length) * 1000).toFixed(1)} µs`)
+
+  console.log()
+}
+
+// Export for use in console
+if (typeof window !== 'undefined') {
+  Object.assign(window, { runParserBenchmark: runBenchmark })
+}
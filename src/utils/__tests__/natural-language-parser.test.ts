@@ -3,7 +3,15 @@
  * Demonstrates the parsing capabilities
  */
 
-import { parseTaskInput, formatDateForDisplay } from '@/utils/natural-language-parser'
+import {
+  parseTaskInput,
+  formatDateForDisplay,
+  formatRecurrence,
+  formatReminder,
+  formatTimeRange,
+  type MentionRegistry,
+  type ShortcutRule,
+} from '@/utils/natural-language-parser'
 
 // Helper to create a date at midnight
 function createDate(year: number, month: number, day: number): Date {
@@ -12,6 +20,18 @@ function createDate(year: number, month: number, day: number): Date {
   return date
 }
 
+// User-defined shortcuts used by the shortcut test cases
+const shortcuts: ShortcutRule[] = [
+  { id: 'standup', kind: 'expansion', trigger: 'standup', expansion: 'Standup weekdays 9:30 #work +Team' },
+  { id: 'gro', kind: 'expansion', trigger: ';;gro', expansion: '+Groceries #shopping' },
+  { id: 'eod', kind: 'keyword', trigger: 'eod', fields: { date: 'today', time: '17:00' } },
+  { id: 'asap', kind: 'keyword', trigger: 'asap', fields: { priority: 'high' } },
+  { id: 'p1', kind: 'keyword', trigger: 'p1', fields: { priority: 'low' } },
+]
+
+// People and contexts used by the mention test cases
+const mentions: MentionRegistry = { people: ['Alice', 'bob'], contexts: ['home', 'phone'] }
+
 // Test cases showcasing the parser capabilities
 export const testCases = [
   {
@@ -75,42 +95,1568 @@ export const testCases = [
   {
     input: 'Write report due next friday #work #urgent',
     expected: {
-      titleContains: 'Write report due',
+      titleContains: 'Write report',
       hasDate: true,
+      hasDeadline: true,
       hasTime: false,
       hasTags: true,
       tags: ['work', 'urgent'],
     },
   },
-]
-
-// Run tests
-export function runTests(): void {
-  console.log('🧪 Running Natural Language Parser Tests\n')
-
-  testCases.forEach((testCase, index) => {
-    const result = parseTaskInput(testCase.input)
-
-    console.log(`Test ${index + 1}: "${testCase.input}"`)
-    console.log(`  Title: "${result.title}"`)
-    console.log(`  Date: ${result.date ? formatDateForDisplay(result.date) : 'None'}`)
-    console.log(`  Time: ${result.time || 'None'}`)
-    console.log(`  Tags: ${result.tags.length > 0 ? result.tags.join(', ') : 'None'}`)
-
-    // Validate
-    const titleMatch = result.title.includes(testCase.expected.titleContains)
-    const dateMatch = (result.date !== null) === testCase.expected.hasDate
-    const timeMatch = (result.time !== null) === testCase.expected.hasTime
-    const tagsMatch = (result.tags.length > 0) === testCase.expected.hasTags
+  {
+    input: 'Submit slides tomorrow at 2pm #work',
+    expected: {
+      titleContains: 'Submit slides',
+      hasDate: true,
+      hasTime: true,
+      hasTags: true,
+      tokens: [
+        { kind: 'date', text: 'tomorrow' },
+        { kind: 'time', text: 'at 2pm', value: '14:00' },
+        { kind: 'tag', text: '#work', value: 'work' },
+      ],
+    },
+  },
+  {
+    input: 'Read tomorrow essay',
+    literalRanges: [{ start: 5, end: 13 }],
+    expected: {
+      titleContains: 'Read tomorrow essay',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      tokens: [],
+    },
+  },
+  {
+    input: 'Water plants every monday',
+    expected: {
+      titleContains: 'Water plants',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      recurrence: 'every Mon',
+    },
+  },
+  {
+    input: 'pay rent every month on the 1st',
+    expected: {
+      titleContains: 'pay rent',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      recurrence: 'monthly on the 1st',
+    },
+  },
+  {
+    input: 'standup weekdays at 9:30',
+    expected: {
+      titleContains: 'standup',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      recurrence: 'weekdays',
+    },
+  },
+  {
+    input: 'Review budget every 2 weeks #finance',
+    expected: {
+      titleContains: 'Review budget',
+      hasDate: true,
+      hasTime: false,
+      hasTags: true,
+      recurrence: 'every 2 weeks',
+    },
+  },
+  {
+    input: 'Gym every tue and thu for 10 times',
+    expected: {
+      titleContains: 'Gym',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      recurrence: 'every Tue, Thu, 10 times',
+    },
+  },
+  {
+    input: 'Fix login crash !high #bug',
+    expected: {
+      titleContains: 'Fix login crash',
+      hasDate: false,
+      hasTime: false,
+      hasTags: true,
+      priority: 'high',
+    },
+  },
+  {
+    input: 'Renew passport p2 next friday',
+    expected: {
+      titleContains: 'Renew passport',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      priority: 'medium',
+    },
+  },
+  {
+    input: 'Call the plumber !!! tomorrow',
+    expected: {
+      titleContains: 'Call the plumber',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      priority: 'high',
+    },
+  },
+  {
+    input: 'Reply to customer urgent',
+    expected: {
+      titleContains: 'Reply to customer',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      ambiguous: false,
+      priority: 'high',
+    },
+  },
+  {
+    input: 'Book urgent care appointment',
+    expected: {
+      titleContains: 'care appointment',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      ambiguous: true,
+      tokens: [{ kind: 'priority', text: 'urgent' }],
+    },
+  },
+  {
+    input: '!urgent call the landlord',
+    expected: {
+      titleContains: 'call the landlord',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      ambiguous: false,
+      priority: 'high',
+    },
+  },
+  {
+    input: 'Triage inbox #urgent',
+    expected: {
+      titleContains: 'Triage inbox',
+      hasDate: false,
+      hasTime: false,
+      hasTags: true,
+      tags: ['urgent'],
+      priority: null,
+    },
+  },
+  {
+    input: 'Buy oat milk +Groceries tomorrow',
+    expected: {
+      titleContains: 'Buy oat milk',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      list: 'Groceries',
+    },
+  },
+  {
+    input: 'Sketch landing page @"Side project" #design',
+    expected: {
+      titleContains: 'Sketch landing page',
+      hasDate: false,
+      hasTime: false,
+      hasTags: true,
+      list: 'Side project',
+    },
+  },
+  {
+    input: 'Email bob@example.com about invoice',
+    expected: {
+      titleContains: 'Email bob@example.com about invoice',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      list: null,
+    },
+  },
+  {
+    input: 'Write RFC ~2h #work',
+    expected: {
+      titleContains: 'Write RFC',
+      hasDate: false,
+      hasTime: false,
+      hasTags: true,
+      estimateMinutes: 120,
+    },
+  },
+  {
+    input: 'call dentist for 15m tomorrow',
+    expected: {
+      titleContains: 'call dentist',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      estimateMinutes: 15,
+    },
+  },
+  {
+    input: 'deep work 90 minutes',
+    expected: {
+      titleContains: 'deep work',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      estimateMinutes: 90,
+    },
+  },
+  {
+    input: 'Check the oven in 2 hours',
+    expected: {
+      titleContains: 'Check the oven',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      estimateMinutes: null,
+    },
+  },
+  {
+    input: 'Refactor parser ~1h 30m',
+    expected: {
+      titleContains: 'Refactor parser',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      estimateMinutes: 90,
+    },
+  },
+  {
+    // The span ends at the last digit, not the space after it
+    input: 'Workshop from 9 to 11 with Ann',
+    expected: {
+      title: 'Workshop with Ann',
+      titleContains: 'Workshop with Ann',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      time: '09:00',
+      end: '11:00',
+      tokens: [{ kind: 'time', text: 'from 9 to 11', value: '09:00-11:00', start: 9, end: 21 }],
+    },
+  },
+  {
+    // One-letter units need no space ("5m", "2h"); "5 m" is a length
+    input: 'Buy 5 m of rope',
+    expected: {
+      title: 'Buy 5 m of rope',
+      titleContains: 'Buy 5 m of rope',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      estimateMinutes: null,
+      tokens: [],
+    },
+  },
+  {
+    input: 'Draft proposal start monday due friday',
+    expected: {
+      titleContains: 'Draft proposal',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      hasScheduledDate: true,
+      hasDeadline: true,
+    },
+  },
+  {
+    input: 'Submit taxes by april 15',
+    expected: {
+      titleContains: 'Submit taxes',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      hasScheduledDate: false,
+      hasDeadline: true,
+    },
+  },
+  {
+    input: 'Ship release on friday',
+    expected: {
+      titleContains: 'Ship release',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      hasScheduledDate: true,
+      hasDeadline: false,
+    },
+  },
+  {
+    input: 'Stand by the door tomorrow',
+    expected: {
+      titleContains: 'Stand by the door',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      hasScheduledDate: true,
+      hasDeadline: false,
+    },
+  },
+  {
+    input: 'Clean garage this weekend',
+    expected: {
+      titleContains: 'Clean garage',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: 'this weekend' }],
+    },
+  },
+  {
+    input: 'Plan sprint next week #work',
+    expected: {
+      titleContains: 'Plan sprint',
+      hasDate: true,
+      hasTime: false,
+      hasTags: true,
+      tokens: [{ kind: 'date', text: 'next week' }, { kind: 'tag', text: '#work', value: 'work' }],
+    },
+  },
+  {
+    input: 'Send status update end of week',
+    expected: {
+      titleContains: 'Send status update',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: 'end of week' }],
+    },
+  },
+  {
+    input: 'File expenses by end of month',
+    expected: {
+      titleContains: 'File expenses',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'deadline', text: 'by end of month' }],
+    },
+  },
+  {
+    input: 'Review roadmap next quarter',
+    expected: {
+      titleContains: 'Review roadmap',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: 'next quarter' }],
+    },
+  },
+  {
+    input: 'Pay rent on the 15th',
+    expected: {
+      titleContains: 'Pay rent',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: 'on the 15th' }],
+    },
+  },
+  {
+    input: 'Renew passport March 3rd, 2027',
+    expected: {
+      titleContains: 'Renew passport',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: 'March 3rd, 2027', value: '2027-03-03' }],
+    },
+  },
+  {
+    input: 'Dentist appointment 2026-11-02',
+    expected: {
+      titleContains: 'Dentist appointment',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: '2026-11-02', value: '2026-11-02' }],
+    },
+  },
+  {
+    input: 'Log workout from yesterday',
+    expected: {
+      titleContains: 'Log workout from',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: 'yesterday' }],
+    },
+  },
+  {
+    input: 'Call plumber day after tomorrow',
+    expected: {
+      titleContains: 'Call plumber',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: 'day after tomorrow' }],
+    },
+  },
+  {
+    input: 'Book flights 03/04/2027',
+    expected: {
+      titleContains: 'Book flights',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: '03/04/2027', value: '2027-03-04' }],
+    },
+  },
+  {
+    input: 'Book flights 03/04/2027',
+    dateOrder: 'DMY' as const,
+    expected: {
+      titleContains: 'Book flights',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      tokens: [{ kind: 'date', text: '03/04/2027', value: '2027-04-03' }],
+    },
+  },
+  {
+    input: 'Team sync next monday',
+    now: new Date('2026-11-02T02:00:00Z'),
+    timeZone: 'America/New_York',
+    expected: {
+      titleContains: 'Team sync',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 11, 2),
+    },
+  },
+  {
+    input: 'Team sync next monday',
+    now: new Date('2026-11-02T02:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      titleContains: 'Team sync',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 11, 9),
+    },
+  },
+  {
+    input: 'Team sync next monday',
+    now: new Date('2026-03-07T12:00:00Z'),
+    timeZone: 'America/New_York',
+    expected: {
+      titleContains: 'Team sync',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 3, 9),
+    },
+  },
+  {
+    input: 'Team sync next monday',
+    now: new Date('2026-10-24T22:30:00Z'),
+    timeZone: 'Europe/Berlin',
+    expected: {
+      titleContains: 'Team sync',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 26),
+    },
+  },
+  {
+    input: 'Call mom tomorrow',
+    now: new Date('2026-10-19T12:00:00Z'),
+    timeZone: 'Pacific/Auckland',
+    expected: {
+      titleContains: 'Call mom',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 21),
+    },
+  },
+  {
+    input: 'Plan sprint next week',
+    now: new Date('2026-10-21T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      titleContains: 'Plan sprint',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 26),
+    },
+  },
+  {
+    input: 'Plan sprint next week',
+    now: new Date('2026-10-21T12:00:00Z'),
+    timeZone: 'UTC',
+    weekStartsOn: 0,
+    expected: {
+      titleContains: 'Plan sprint',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 25),
+    },
+  },
+  {
+    input: 'Pay rent on the 15th',
+    now: new Date('2026-10-19T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      titleContains: 'Pay rent',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 11, 15),
+    },
+  },
+  {
+    input: 'sun screen',
+    expected: {
+      titleContains: 'screen',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      ambiguous: true,
+      tokens: [{ kind: 'date', text: 'sun' }],
+    },
+  },
+  {
+    input: 'wed dress shopping',
+    expected: {
+      titleContains: 'dress shopping',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      ambiguous: true,
+    },
+  },
+  {
+    input: 'Dinner with Sam on sat',
+    expected: {
+      titleContains: 'Dinner with Sam',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      ambiguous: false,
+    },
+  },
+  {
+    input: 'May review',
+    expected: {
+      titleContains: 'May review',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      ambiguous: false,
+    },
+  },
+  {
+    input: 'Renew lease may 5',
+    expected: {
+      titleContains: 'Renew lease',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      ambiguous: true,
+    },
+  },
+  {
+    input: 'Call at 5',
+    expected: {
+      titleContains: 'Call',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      ambiguous: true,
+      tokens: [{ kind: 'time', text: 'at 5', value: '17:00' }],
+    },
+  },
+  {
+    input: 'Standup at 9',
+    expected: {
+      titleContains: 'Standup',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      ambiguous: true,
+      tokens: [{ kind: 'time', text: 'at 9', value: '09:00' }],
+    },
+  },
+  {
+    input: 'Standup at 9am',
+    expected: {
+      titleContains: 'Standup',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      ambiguous: false,
+    },
+  },
+  {
+    input: "Read 'Tomorrow and Tomorrow' essay",
+    expected: {
+      title: "Read 'Tomorrow and Tomorrow' essay",
+      titleContains: "Read 'Tomorrow and Tomorrow' essay",
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+    },
+  },
+  {
+    input: 'Fix \\#123 regression',
+    expected: {
+      title: 'Fix #123 regression',
+      titleContains: 'Fix #123 regression',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+    },
+  },
+  {
+    input: 'Read "Tomorrow" tomorrow',
+    expected: {
+      title: 'Read "Tomorrow"',
+      titleContains: 'Read "Tomorrow"',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+    },
+  },
+  {
+    input: 'Call Mom\'s friend tomorrow',
+    expected: {
+      title: "Call Mom's friend",
+      titleContains: "Call Mom's friend",
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+    },
+  },
+  {
+    input: 'Post \\tomorrow \\#launch teaser #marketing',
+    expected: {
+      title: 'Post tomorrow #launch teaser',
+      titleContains: 'Post tomorrow #launch teaser',
+      hasDate: false,
+      hasTime: false,
+      hasTags: true,
+    },
+  },
+  {
+    input: 'Buy milk tomorrow #home',
+    plainText: true,
+    expected: {
+      title: 'Buy milk tomorrow #home',
+      titleContains: 'Buy milk tomorrow #home',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+    },
+  },
+  {
+    input: 'Check the oven in 2 hours',
+    now: new Date('2026-10-19T22:30:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      titleContains: 'Check the oven',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      date: createDate(2026, 10, 20),
+      time: '00:30',
+      allDay: false,
+    },
+  },
+  {
+    input: 'Take a break in 30 minutes',
+    now: new Date('2026-10-19T22:30:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      titleContains: 'Take a break',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      date: createDate(2026, 10, 19),
+      time: '23:00',
+    },
+  },
+  {
+    input: 'Workshop tomorrow 2-3pm',
+    now: new Date('2026-10-19T22:30:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      titleContains: 'Workshop',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      date: createDate(2026, 10, 20),
+      time: '14:00',
+      end: '15:00',
+      tokens: [
+        { kind: 'date', text: 'tomorrow' },
+        { kind: 'time', text: '2-3pm', value: '14:00-15:00' },
+      ],
+    },
+  },
+  {
+    input: 'Deep work from 9 to 11 friday',
+    now: new Date('2026-10-19T22:30:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      titleContains: 'Deep work',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      date: createDate(2026, 10, 23),
+      time: '09:00',
+      end: '11:00',
+    },
+  },
+  {
+    input: 'Lunch 11:30-1pm',
+    now: new Date('2026-10-19T22:30:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      titleContains: 'Lunch',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      time: '11:30',
+      end: '13:00',
+    },
+  },
+  {
+    input: 'Party saturday 10pm-1am',
+    now: new Date('2026-10-19T22:30:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      titleContains: 'Party',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      time: '22:00',
+      end: '01:00',
+    },
+  },
+  {
+    input: 'Read chapters 9-11 tomorrow',
+    expected: {
+      titleContains: 'Read chapters 9-11',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      allDay: true,
+    },
+  },
+  {
+    input: 'standup',
+    shortcuts,
+    expected: {
+      title: 'Standup',
+      titleContains: 'Standup',
+      hasDate: true,
+      hasTime: true,
+      hasTags: true,
+      tags: ['work'],
+      list: 'Team',
+      time: '09:30',
+      recurrence: 'weekdays',
+    },
+  },
+  {
+    input: 'Oat milk ;;gro',
+    shortcuts,
+    expected: {
+      title: 'Oat milk',
+      titleContains: 'Oat milk',
+      hasDate: false,
+      hasTime: false,
+      hasTags: true,
+      tags: ['shopping'],
+      list: 'Groceries',
+      tokens: [{ kind: 'shortcut', text: ';;gro', value: '+Groceries #shopping' }],
+    },
+  },
+  {
+    input: 'Send invoice eod asap',
+    shortcuts,
+    now: new Date(2026, 9, 19, 10, 0),
+    expected: {
+      title: 'Send invoice',
+      titleContains: 'Send invoice',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      date: createDate(2026, 10, 19),
+      time: '17:00',
+      priority: 'high',
+    },
+  },
+  {
+    // Typed text overrides a shortcut's default: friday at the shortcut's 17:00
+    input: 'Send invoice eod friday',
+    shortcuts,
+    now: new Date(2026, 9, 19, 10, 0),
+    expected: {
+      title: 'Send invoice',
+      titleContains: 'Send invoice',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      date: createDate(2026, 10, 23),
+      time: '17:00',
+    },
+  },
+  {
+    // Shortcuts run before the built-in rules: "p1" is the user's low priority
+    input: 'Tidy desk p1',
+    shortcuts,
+    expected: {
+      title: 'Tidy desk',
+      titleContains: 'Tidy desk',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      priority: 'low',
+    },
+  },
+  {
+    input: 'Tidy desk p1',
+    expected: {
+      titleContains: 'Tidy desk',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      priority: 'high',
+    },
+  },
+  {
+    input: 'Write eodrecap standups',
+    shortcuts,
+    expected: {
+      title: 'Write eodrecap standups',
+      titleContains: 'Write eodrecap standups',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+    },
+  },
+  {
+    input: 'Submit expenses friday 5pm remind me 1h before',
+    expected: {
+      title: 'Submit expenses',
+      titleContains: 'Submit expenses',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      time: '17:00',
+      reminders: '1h before',
+    },
+  },
+  {
+    input: 'Submit expenses friday 5pm remind me at 4pm',
+    expected: {
+      title: 'Submit expenses',
+      titleContains: 'Submit expenses',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      time: '17:00',
+      reminders: 'at 4:00 PM',
+    },
+  },
+  {
+    input: 'Pay rent on the 1st remind me 2 days early',
+    expected: {
+      titleContains: 'Pay rent',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      reminders: '2d before',
+    },
+  },  {
+    input: 'Send invoice in 3 business days',
+    now: new Date('2026-10-19T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      title: 'Send invoice',
+      titleContains: 'Send invoice',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 22),
+    },
+  },  {
+    // A bare "remind me" fires when a timed task starts...
+    input: 'Standup friday 9:30 remind me',
+    expected: {
+      titleContains: 'Standup',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      reminders: 'at start',
+    },
+  },
+  {
+    // ...and at 9:00 on the day of one without a time, instead of never
+    input: 'Water the plants friday remind me',
+    expected: {
+      title: 'Water the plants',
+      titleContains: 'Water the plants',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      reminders: 'at 9:00 AM',
+    },
+  },
+
+  {
+    input: 'Follow up next workday',
+    now: new Date('2026-10-19T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      title: 'Follow up',
+      titleContains: 'Follow up',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 20),
+    },
+  },
+  // Veterans Day (Nov 11) is a day off in the default US calendar
+  {
+    input: 'Pay vendor 2 weekdays after the 10th',
+    now: new Date('2026-10-19T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      title: 'Pay vendor',
+      titleContains: 'Pay vendor',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 11, 13),
+    },
+  },
+  // Counting back from Dec 1 skips Thanksgiving
+  {
+    input: 'Ship 3 working days before dec 1',
+    now: new Date('2026-10-19T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      title: 'Ship',
+      titleContains: 'Ship',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 11, 25),
+      hasDeadline: false,
+    },
+  },
+  {
+    input: 'Send report in 3 business days',
+    now: new Date('2026-10-23T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      title: 'Send report',
+      titleContains: 'Send report',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 28),
+    },
+  },
+  // A Sunday to Thursday work week
+  {
+    input: 'Send report in 3 business days',
+    now: new Date('2026-10-23T12:00:00Z'),
+    timeZone: 'UTC',
+    workWeek: [0, 1, 2, 3, 4],
+    expected: {
+      title: 'Send report',
+      titleContains: 'Send report',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 27),
+    },
+  },
+  {
+    input: 'Dinner with family on thanksgiving',
+    now: new Date('2026-10-19T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      title: 'Dinner with family',
+      titleContains: 'Dinner with family',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 11, 26),
+      ambiguous: false,
+    },
+  },
+  // Holiday names also show up in titles, so a bare one is a guess
+  {
+    input: 'Buy christmas presents',
+    now: new Date('2026-10-19T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      title: 'Buy presents',
+      titleContains: 'Buy presents',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 12, 25),
+      ambiguous: true,
+    },
+  },
+  {
+    input: 'Book venue due new years eve',
+    now: new Date('2026-10-19T12:00:00Z'),
+    timeZone: 'UTC',
+    expected: {
+      title: 'Book venue',
+      titleContains: 'Book venue',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 12, 31),
+      hasDeadline: true,
+    },
+  },
+  {
+    input: 'Call plumber @phone tomorrow @alice',
+    mentions,
+    expected: {
+      title: 'Call plumber',
+      titleContains: 'Call plumber',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      contexts: ['phone'],
+      assignees: ['Alice'],
+    },
+  },
+  {
+    // An "@name" that is neither a person nor a context is still a list
+    input: 'Draft memo @Work @bob',
+    mentions,
+    expected: {
+      title: 'Draft memo',
+      titleContains: 'Draft memo',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      list: 'Work',
+      contexts: [],
+      assignees: ['bob'],
+    },
+  },
+  {
+    // Common GTD contexts are known without a registry
+    input: 'Buy paint @Errands +Groceries',
+    expected: {
+      title: 'Buy paint',
+      titleContains: 'Buy paint',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      list: 'Groceries',
+      contexts: ['errands'],
+      assignees: [],
+    },
+  },
+  {
+    // A link is kept on the task and leaves a short label in the title
+    input: 'Review https://github.com/org/repo/pull/42 #code',
+    expected: {
+      title: 'Review PR #42',
+      titleContains: 'Review PR #42',
+      hasDate: false,
+      hasTime: false,
+      hasTags: true,
+      links: ['PR #42'],
+      tokens: [
+        { kind: 'link', text: 'https://github.com/org/repo/pull/42' },
+        { kind: 'tag', text: '#code' },
+      ],
+    },
+  },
+  {
+    // The "#" of a URL fragment is not a tag
+    input: 'Read https://docs.google.com/document/d/1abc/edit#heading=h.2 by friday',
+    expected: {
+      title: 'Read Google Doc',
+      titleContains: 'Read Google Doc',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      hasDeadline: true,
+      links: ['Google Doc'],
+    },
+  },
+  {
+    // An email address is not a mention or a list
+    input: 'Email sam@example.com the draft tomorrow',
+    expected: {
+      title: 'Email sam@example.com the draft',
+      titleContains: 'Email sam@example.com',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      links: ['sam@example.com'],
+      tokens: [
+        { kind: 'link', text: 'sam@example.com', value: 'mailto:sam@example.com' },
+        { kind: 'date', text: 'tomorrow' },
+      ],
+    },
+  },
+  {
+    // Phone numbers need a country or area code to be split by spaces; dates are not numbers
+    input: 'Call +1 555 123 4567 or (030) 1234-5678 about invoice 2026-10-30',
+    expected: {
+      title: 'Call +1 555 123 4567 or (030) 1234-5678 about invoice',
+      titleContains: 'Call +1 555',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      links: ['+1 555 123 4567', '(030) 1234-5678'],
+      tokens: [
+        { kind: 'link', text: '+1 555 123 4567', value: 'tel:+15551234567' },
+        { kind: 'link', text: '(030) 1234-5678', value: 'tel:03012345678' },
+        { kind: 'date', text: '2026-10-30' },
+      ],
+    },
+  },
+  {
+    // German reads days before months and "15 Uhr" as a 24-hour time
+    input: 'Zahnarzt am 3. November um 15 Uhr #gesundheit',
+    locale: 'de',
+    now: createDate(2026, 10, 19),
+    expected: {
+      title: 'Zahnarzt',
+      titleContains: 'Zahnarzt',
+      hasDate: true,
+      hasTime: true,
+      hasTags: true,
+      date: createDate(2026, 11, 3),
+      time: '15:00',
+      tokens: [
+        { kind: 'date', text: 'am 3. November' },
+        { kind: 'time', text: 'um 15 Uhr' },
+        { kind: 'tag', text: '#gesundheit' },
+      ],
+    },
+  },
+  {
+    input: 'Rechnung bezahlen bis Freitag 24.10.',
+    locale: 'de',
+    now: createDate(2026, 10, 19),
+    expected: {
+      titleContains: 'Rechnung bezahlen',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      hasDeadline: true,
+    },
+  },
+  {
+    // "mañana" on its own is tomorrow; "por la mañana" is a time of day
+    input: 'Llamar a mamá mañana por la mañana',
+    locale: 'es',
+    now: createDate(2026, 10, 19),
+    expected: {
+      title: 'Llamar a mamá',
+      titleContains: 'Llamar a mamá',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      date: createDate(2026, 10, 20),
+      time: '09:00',
+      tokens: [
+        { kind: 'date', text: 'mañana' },
+        { kind: 'time', text: 'por la mañana' },
+      ],
+    },
+  },
+  {
+    input: 'Réunion lundi prochain à 9h30',
+    locale: 'fr',
+    now: createDate(2026, 10, 19),
+    expected: {
+      title: 'Réunion',
+      titleContains: 'Réunion',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      date: createDate(2026, 10, 26),
+      time: '09:30',
+    },
+  },
+  {
+    // Work already done is completed when it says
+    input: 'done: called the bank yesterday 3pm #finance',
+    now: new Date(2026, 9, 19, 10, 0),
+    expected: {
+      title: 'called the bank',
+      titleContains: 'called the bank',
+      hasDate: true,
+      hasTime: true,
+      hasTags: true,
+      date: createDate(2026, 10, 18),
+      completedAt: new Date(2026, 9, 18, 15, 0),
+      tokens: [
+        { kind: 'done', text: 'done:' },
+        { kind: 'date', text: 'yesterday' },
+        { kind: 'time', text: '3pm' },
+        { kind: 'tag', text: '#finance' },
+      ],
+    },
+  },
+  {
+    input: 'did: deployed the hotfix 2 hours ago',
+    now: new Date(2026, 9, 19, 10, 0),
+    expected: {
+      title: 'deployed the hotfix',
+      titleContains: 'deployed the hotfix',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      time: '08:00',
+      completedAt: new Date(2026, 9, 19, 8, 0),
+    },
+  },
+  {
+    // Day names look back in work already done
+    input: 'done: gym friday',
+    now: new Date(2026, 9, 19, 10, 0),
+    expected: {
+      titleContains: 'gym',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 16),
+      completedAt: createDate(2026, 10, 16),
+    },
+  },
+  {
+    // Without a time, work already done was finished now
+    input: 'Walked the dog',
+    completed: true,
+    now: new Date(2026, 9, 19, 10, 0),
+    expected: {
+      titleContains: 'Walked the dog',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      completedAt: new Date(2026, 9, 19, 10, 0),
+    },
+  },
+  {
+    // Past dates do not make a task done
+    input: 'Follow up on the call last friday',
+    now: new Date(2026, 9, 19, 10, 0),
+    expected: {
+      titleContains: 'Follow up on the call',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 16),
+      completedAt: null,
+    },
+  },
+  {
+    input: 'erledigt: Bank angerufen vor 3 Tagen',
+    locale: 'de',
+    now: new Date(2026, 9, 19, 10, 0),
+    expected: {
+      title: 'Bank angerufen',
+      titleContains: 'Bank angerufen',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+      date: createDate(2026, 10, 16),
+      completedAt: createDate(2026, 10, 16),
+    },
+  },
+  {
+    // Other locales' words are plain text
+    input: 'Read Morgenpost tomorrow',
+    locale: 'en',
+    expected: {
+      title: 'Read Morgenpost',
+      titleContains: 'Read Morgenpost',
+      hasDate: true,
+      hasTime: false,
+      hasTags: false,
+    },
+  },
+  {
+    input: 'Plan trip: book flights; reserve hotel; renew passport',
+    expected: {
+      title: 'Plan trip',
+      titleContains: 'Plan trip',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      subtasks: [
+        { title: 'book flights', date: null, tags: [] },
+        { title: 'reserve hotel', date: null, tags: [] },
+        { title: 'renew passport', date: null, tags: [] },
+      ],
+      tokens: [
+        { kind: 'subtask', text: ': book flights', value: 'book flights' },
+        { kind: 'subtask', text: '; reserve hotel', value: 'reserve hotel' },
+        { kind: 'subtask', text: '; renew passport', value: 'renew passport' },
+      ],
+    },
+  },
+  {
+    // A subtask kept as text (its chip un-parsed) goes back to the title; the rest parse
+    input: 'Plan trip: book flights; reserve hotel; renew passport',
+    literalRanges: [{ start: 25, end: 38 }],
+    expected: {
+      title: 'Plan trip reserve hotel',
+      titleContains: 'Plan trip',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      subtasks: [
+        { title: 'book flights', date: null, tags: [] },
+        { title: 'renew passport', date: null, tags: [] },
+      ],
+    },
+  },
+  {
+    // Children take the parent's day and tags unless they set their own
+    input: 'Plan trip friday #travel: book flights; reserve hotel thursday #admin; call hotel 3pm',
+    now: new Date(2026, 9, 19, 10, 0),
+    expected: {
+      title: 'Plan trip',
+      titleContains: 'Plan trip',
+      hasDate: true,
+      hasTime: false,
+      hasTags: true,
+      date: createDate(2026, 10, 23),
+      subtasks: [
+        { title: 'book flights', date: createDate(2026, 10, 23), tags: ['travel'] },
+        { title: 'reserve hotel', date: createDate(2026, 10, 22), tags: ['admin'] },
+        { title: 'call hotel', date: createDate(2026, 10, 23), time: '15:00', tags: ['travel'] },
+      ],
+    },
+  },
+  {
+    // A colon without a semicolon list, or one inside a time, stays in the title
+    input: 'Re: budget at 10:30',
+    expected: {
+      title: 'Re: budget',
+      titleContains: 'Re: budget',
+      hasDate: true,
+      hasTime: true,
+      hasTags: false,
+      subtasks: [],
+    },
+  },
+  {
+    input: 'Say "a: b; c" to the team',
+    expected: {
+      title: 'Say "a: b; c" to the team',
+      titleContains: 'Say',
+      hasDate: false,
+      hasTime: false,
+      hasTags: false,
+      subtasks: [],
+    },
+  },
+]
+
+// Run tests
+export function runTests(): void {
+  console.log('🧪 Running Natural Language Parser Tests\n')
+
+  testCases.forEach((testCase, index) => {
+    const result = parseTaskInput(testCase.input, {
+      literalRanges: testCase.literalRanges,
+      locale: testCase.locale,
+      dateOrder: testCase.dateOrder,
+      now: testCase.now,
+      timeZone: testCase.timeZone,
+      weekStartsOn: testCase.weekStartsOn,
+      workWeek: testCase.workWeek,
+      plainText: testCase.plainText,
+      completed: testCase.completed,
+      shortcuts: testCase.shortcuts,
+      mentions: testCase.mentions,
+    })
+
+    console.log(`Test ${index + 1}: "${testCase.input}"`)
+    console.log(`  Title: "${result.title}"`)
+    console.log(`  Date: ${result.date ? formatDateForDisplay(result.date, testCase) : 'None'}`)
+    console.log(`  Scheduled: ${result.scheduledDate ? formatDateForDisplay(result.scheduledDate) : 'None'}`)
+    console.log(`  Deadline: ${result.deadline ? formatDateForDisplay(result.deadline) : 'None'}`)
+    console.log(`  Time: ${result.start && !result.allDay ? formatTimeRange(result.start, result.end) : 'None'}`)
+    console.log(`  Tags: ${result.tags.length > 0 ? result.tags.join(', ') : 'None'}`)
+    console.log(`  Priority: ${result.priority || 'None'}`)
+    console.log(`  List: ${result.list || 'None'}`)
+    console.log(`  Contexts: ${result.contexts.join(', ') || 'None'}`)
+    console.log(`  Assignees: ${result.assignees.join(', ') || 'None'}`)
+    console.log(`  Links: ${result.links.map((link) => link.label).join(', ') || 'None'}`)
+    console.log(`  Estimate: ${result.estimateMinutes ?? 'None'}`)
+    console.log(`  Completed: ${result.completedAt?.toString() ?? 'No'}`)
+    console.log(`  Subtasks: ${result.subtasks.map((subtask) => subtask.title).join('; ') || 'None'}`)
+    console.log(`  Recurrence: ${result.recurrence ? formatRecurrence(result.recurrence) : 'None'}`)
+    console.log(`  Reminders: ${result.reminders.length > 0 ? result.reminders.map(formatReminder).join(', ') : 'None'}`)
+    console.log(`  Confidence: ${result.confidence}`)
+    console.log(`  Tokens: ${result.tokens.map((t) => `${t.kind}[${t.start}-${t.end}]`).join(' ') || 'None'}`)
+
+    // Validate
+    const titleMatch =
+      result.title.includes(testCase.expected.titleContains) &&
+      (testCase.expected.title === undefined || result.title === testCase.expected.title)
+    const dateMatch =
+      (result.date !== null) === testCase.expected.hasDate &&
+      (testCase.expected.date === undefined ||
+        result.date?.getTime() === testCase.expected.date.getTime())
+    const timeMatch = (result.time !== null) === testCase.expected.hasTime
+    const tagsMatch = (result.tags.length > 0) === testCase.expected.hasTags
+    const expectedTokens:
+      | Array<{ kind: string; text: string; value?: string; start?: number; end?: number }>
+      | undefined = testCase.expected.tokens
+    const tokensMatch =
+      !expectedTokens ||
+      (expectedTokens.length === result.tokens.length &&
+        expectedTokens.every((expected, i) => {
+          const token = result.tokens[i]
+          return (
+            token.kind === expected.kind &&
+            token.text === expected.text &&
+            testCase.input.slice(token.start, token.end) === expected.text &&
+            (expected.value === undefined || token.value === expected.value) &&
+            (expected.start === undefined || token.start === expected.start) &&
+            (expected.end === undefined || token.end === expected.end)
+          )
+        }))
+
+    const recurrenceMatch =
+      testCase.expected.recurrence === undefined ||
+      (result.recurrence !== null &&
+        formatRecurrence(result.recurrence) === testCase.expected.recurrence)
+
+    const remindersMatch =
+      testCase.expected.reminders === undefined ||
+      result.reminders.map(formatReminder).join(', ') === testCase.expected.reminders
+
+    const priorityMatch =
+      testCase.expected.priority === undefined || result.priority === testCase.expected.priority
+
+    const listMatch = testCase.expected.list === undefined || result.list === testCase.expected.list
+
+    const mentionsMatch =
+      (testCase.expected.contexts === undefined ||
+        result.contexts.join(',') === testCase.expected.contexts.join(',')) &&
+      (testCase.expected.assignees === undefined ||
+        result.assignees.join(',') === testCase.expected.assignees.join(','))
+
+    const linksMatch =
+      testCase.expected.links === undefined ||
+      result.links.map((link) => link.label).join(',') === testCase.expected.links.join(',')
+
+    const completedMatch =
+      testCase.expected.completedAt === undefined ||
+      result.completedAt?.getTime() === testCase.expected.completedAt?.getTime()
+
+    const expectedSubtasks:
+      | Array<{ title: string; date: Date | null; time?: string; tags: string[] }>
+      | undefined = testCase.expected.subtasks
+    const subtasksMatch =
+      !expectedSubtasks ||
+      (expectedSubtasks.length === result.subtasks.length &&
+        expectedSubtasks.every((expected, i) => {
+          const subtask = result.subtasks[i]
+          return (
+            subtask.title === expected.title &&
+            subtask.date?.getTime() === expected.date?.getTime() &&
+            (expected.time === undefined || subtask.time === expected.time) &&
+            subtask.tags.join(',') === expected.tags.join(',')
+          )
+        }))
+
+    const estimateMatch =
+      testCase.expected.estimateMinutes === undefined ||
+      result.estimateMinutes === testCase.expected.estimateMinutes
+
+    const timeValueMatch =
+      (testCase.expected.time === undefined || result.time === testCase.expected.time) &&
+      (testCase.expected.end === undefined ||
+        (result.end !== null &&
+          `${String(result.end.getHours()).padStart(2, '0')}:${String(result.end.getMinutes()).padStart(2, '0')}` ===
+            testCase.expected.end)) &&
+      (testCase.expected.allDay === undefined || result.allDay === testCase.expected.allDay)
+
+    const scheduledMatch =
+      testCase.expected.hasScheduledDate === undefined ||
+      (result.scheduledDate !== null) === testCase.expected.hasScheduledDate
+    const deadlineMatch =
+      testCase.expected.hasDeadline === undefined ||
+      (result.deadline !== null) === testCase.expected.hasDeadline
+
+    const ambiguousMatch =
+      testCase.expected.ambiguous === undefined ||
+      (result.confidence < 1 &&
+        result.tokens.some((token) => token.alternatives.length > 0)) ===
+        testCase.expected.ambiguous
 
-    const passed = titleMatch && dateMatch && timeMatch && tagsMatch
+    const passed =
+      titleMatch &&
+      timeValueMatch &&
+      ambiguousMatch &&
+      scheduledMatch &&
+      deadlineMatch &&
+      estimateMatch &&
+      completedMatch &&
+      subtasksMatch &&
+      listMatch &&
+      mentionsMatch &&
+      linksMatch &&
+      dateMatch &&
+      timeMatch &&
+      tagsMatch &&
+      tokensMatch &&
+      recurrenceMatch &&
+      remindersMatch &&
+      priorityMatch
     console.log(`  Result: ${passed ? '✅ PASS' : '❌ FAIL'}`)
 
     if (!passed) {
-      if (!titleMatch) console.log(`    - Title mismatch: expected to contain "${testCase.expected.titleContains}"`)
-      if (!dateMatch) console.log(`    - Date mismatch: expected date=${testCase.expected.hasDate}, got=${result.date !== null}`)
+      if (!titleMatch) console.log(`    - Title mismatch: expected "${testCase.expected.title ?? testCase.expected.titleContains}"`)
+      if (!dateMatch) console.log(`    - Date mismatch: expected date=${testCase.expected.date?.toDateString() ?? testCase.expected.hasDate}, got=${result.date?.toDateString() ?? null}`)
       if (!timeMatch) console.log(`    - Time mismatch: expected time=${testCase.expected.hasTime}, got=${result.time !== null}`)
       if (!tagsMatch) console.log(`    - Tags mismatch: expected tags=${testCase.expected.hasTags}, got=${result.tags.length > 0}`)
+      if (!priorityMatch) console.log(`    - Priority mismatch: expected ${testCase.expected.priority}, got=${result.priority}`)
+      if (!listMatch) console.log(`    - List mismatch: expected ${testCase.expected.list}, got=${result.list}`)
+      if (!mentionsMatch) console.log(`    - Mentions mismatch: expected contexts=${testCase.expected.contexts}, assignees=${testCase.expected.assignees}`)
+      if (!linksMatch) console.log(`    - Links mismatch: expected ${testCase.expected.links}, got=${result.links.map((link) => link.label)}`)
+      if (!scheduledMatch) console.log(`    - Scheduled date mismatch: expected scheduled=${testCase.expected.hasScheduledDate}, got=${result.scheduledDate !== null}`)
+      if (!deadlineMatch) console.log(`    - Deadline mismatch: expected deadline=${testCase.expected.hasDeadline}, got=${result.deadline !== null}`)
+      if (!completedMatch) console.log(`    - Completion mismatch: expected ${testCase.expected.completedAt?.toString() ?? null}, got ${result.completedAt?.toString() ?? null}`)
+      if (!subtasksMatch) console.log(`    - Subtasks mismatch: got ${JSON.stringify(result.subtasks.map(({ title, date, time, tags }) => ({ title, date, time, tags })))}`)
+      if (!estimateMatch) console.log(`    - Estimate mismatch: expected ${testCase.expected.estimateMinutes}, got=${result.estimateMinutes}`)
+      if (!recurrenceMatch) console.log(`    - Recurrence mismatch: expected "${testCase.expected.recurrence}"`)
+      if (!remindersMatch) console.log(`    - Reminders mismatch: expected "${testCase.expected.reminders}", got "${result.reminders.map(formatReminder).join(', ')}"`)
+      if (!timeValueMatch) console.log(`    - Start/end mismatch: expected ${testCase.expected.time}-${testCase.expected.end}, got ${result.start?.toString()} - ${result.end?.toString()}`)
+      if (!ambiguousMatch) console.log(`    - Ambiguity mismatch: expected ambiguous=${testCase.expected.ambiguous}, got confidence=${result.confidence}`)
+      if (!tokensMatch) console.log(`    - Tokens mismatch: got ${JSON.stringify(result.tokens)}`)
     }
 
     console.log()
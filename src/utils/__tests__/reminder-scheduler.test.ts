@@ -0,0 +1,70 @@
+/**
+ * Reminder Scheduler Tests
+ * Demonstrates that fired reminders stay fired across schedulers sharing a store
+ */
+
+import type { Task } from '@/hooks/use-tasks'
+import { parseTaskInput } from '@/utils/natural-language-parser'
+import { createReminderScheduler, type DueReminder } from '@/utils/reminder-scheduler'
+
+// A store of its own so the tests leave the app's fired reminders alone
+const TEST_STORAGE_KEY = 'notodo:test-fired-reminders'
+
+// A task whose "remind me" came due a minute ago
+function createTask(): Task {
+  const start = new Date(Date.now() - 60 * 1000)
+  return {
+    ...parseTaskInput('Call the bank remind me'),
+    start,
+    id: 'task-reminder-test',
+    createdAt: start,
+    completed: false,
+  }
+}
+
+// Wait for the timers of reminders already due
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50))
+}
+
+// Run tests
+export async function runTests(): Promise<void> {
+  console.log('🧪 Running Reminder Scheduler Tests\n')
+  localStorage.removeItem(TEST_STORAGE_KEY)
+
+  const task = createTask()
+  const fired: DueReminder[] = []
+  const record = (due: DueReminder) => fired.push(due)
+
+  // The saved tasks' scheduler fires the reminder
+  const first = createReminderScheduler(record, TEST_STORAGE_KEY)
+  first.sync([task])
+  await settle()
+  first.stop()
+
+  // A scheduler syncing a list that does not hold the task, as an empty page starts with
+  const other = createReminderScheduler(() => {}, TEST_STORAGE_KEY)
+  other.sync([])
+  other.stop()
+
+  // The saved tasks again, as after a reload or on another page
+  const reloaded = createReminderScheduler(record, TEST_STORAGE_KEY)
+  reloaded.sync([task])
+  await settle()
+  reloaded.stop()
+
+  console.log('Test 1: A fired reminder does not fire again after another list is synced')
+  console.log(`  Fired: ${fired.length} time(s)`)
+
+  const passed = fired.length === 1
+  console.log(`  Result: ${passed ? '✅ PASS' : '❌ FAIL'}`)
+  if (!passed) console.log('    - Fire count mismatch: expected 1')
+  console.log()
+
+  localStorage.removeItem(TEST_STORAGE_KEY)
+}
+
+// Export for use in console
+if (typeof window !== 'undefined') {
+  Object.assign(window, { runReminderSchedulerTests: runTests })
+}
@@ -0,0 +1,82 @@
+/**
+ * Search Query Tests
+ * Demonstrates filtering tasks with the search query language
+ */
+
+import type { Task, TaskList } from '@/hooks/use-tasks'
+import { parseTaskInput } from '@/utils/natural-language-parser'
+import { parseSearchQuery, searchTasks } from '@/utils/search-query'
+
+const now = new Date(2026, 9, 19, 10, 0)
+
+// Helper to create a stored task from quick-add text
+function createTask(id: string, input: string, extra: Partial<Task> = {}): Task {
+  return {
+    ...parseTaskInput(input, { now }),
+    id,
+    createdAt: now,
+    completed: false,
+    ...extra,
+  }
+}
+
+const lists: TaskList[] = [{ id: 'list-side', name: 'Side project', createdAt: now }]
+
+const tasks = [
+  createTask('report', 'Write quarterly report due thursday #work !high'),
+  createTask('deploy', 'Deploy release due next monday #work'),
+  createTask('milk', 'Buy oat milk +Groceries #shopping'),
+  createTask('garden', 'Plant tulips someday #someday #home'),
+  createTask('invoice', 'Send invoice tomorrow #work', { completed: true }),
+  createTask('logo', 'Sketch logo ideas !low', { listId: 'list-side' }),
+]
+
+// Test cases: `expected` lists the ids of the matching tasks in order
+export const testCases = [
+  { query: 'tag:work is:open', expected: ['report', 'deploy'] },
+  { query: 'due:<friday', expected: ['report'] },
+  { query: 'due:<=next-monday', expected: ['report', 'deploy'] },
+  { query: 'due:>"this weekend"', expected: ['deploy'] },
+  { query: 'date:tomorrow', expected: ['invoice'] },
+  { query: 'list:Groceries', expected: ['milk'] },
+  { query: 'list:"side project"', expected: ['logo'] },
+  { query: 'priority:high', expected: ['report'] },
+  { query: 'priority:>=low -priority:high', expected: ['logo'] },
+  { query: '"oat milk"', expected: ['milk'] },
+  { query: 'report', expected: ['report'] },
+  { query: '-tag:someday -tag:work', expected: ['milk', 'logo'] },
+  { query: 'is:done', expected: ['invoice'] },
+  { query: 'has:deadline', expected: ['report', 'deploy'] },
+  { query: 'due:fridy', expected: ['report', 'deploy', 'milk', 'garden', 'invoice', 'logo'], errors: 1 },
+]
+
+// Run tests
+export function runTests(): void {
+  console.log('🧪 Running Search Query Tests\n')
+
+  testCases.forEach((testCase, index) => {
+    const result = searchTasks(tasks, testCase.query, lists, { now }).map((task) => task.id)
+    const { errors } = parseSearchQuery(testCase.query, { now })
+
+    console.log(`Test ${index + 1}: ${testCase.query}`)
+    console.log(`  Matches: ${result.join(', ') || 'None'}`)
+
+    const matchesMatch = result.join(',') === testCase.expected.join(',')
+    const errorsMatch = errors.length === (testCase.errors ?? 0)
+
+    const passed = matchesMatch && errorsMatch
+    console.log(`  Result: ${passed ? '✅ PASS' : '❌ FAIL'}`)
+
+    if (!passed) {
+      if (!matchesMatch) console.log(`    - Matches mismatch: expected ${testCase.expected.join(', ')}`)
+      if (!errorsMatch) console.log(`    - Errors mismatch: expected ${testCase.errors ?? 0}, got ${errors.join('; ')}`)
+    }
+
+    console.log()
+  })
+}
+
+// Export for use in console
+if (typeof window !== 'undefined') {
+  Object.assign(window, { runSearchQueryTests: runTests })
+}
@@ -0,0 +1,80 @@
+/**
+ * Slash Command Tests
+ * Demonstrates acting on existing tasks from the quick-add box
+ */
+
+import type { Task, TaskList } from '@/hooks/use-tasks'
+import { parseTaskInput } from '@/utils/natural-language-parser'
+import { describeSlashCommand, parseSlashCommand } from '@/utils/slash-commands'
+
+const now = new Date(2026, 9, 19, 10, 0)
+
+// Helper to create a stored task from quick-add text
+function createTask(id: string, input: string, extra: Partial<Task> = {}): Task {
+  return {
+    ...parseTaskInput(input, { now }),
+    id,
+    createdAt: now,
+    completed: false,
+    ...extra,
+  }
+}
+
+const lists: TaskList[] = [{ id: 'list-work', name: 'Work', createdAt: now }]
+
+const tasks = [
+  createTask('milk', 'Buy oat milk #shopping'),
+  createTask('report', 'Write quarterly report tomorrow 9-10am #work'),
+  createTask('review', 'Review report draft friday'),
+  createTask('invoice', 'Send invoice', { completed: true }),
+]
+
+// Test cases: `expected` is the preview line, or null when the command cannot run
+export const testCases = [
+  { input: '/done buy milk', expected: 'Complete "Buy oat milk"' },
+  { input: '/done quarterly', expected: 'Complete "Write quarterly report"' },
+  { input: '/move quarterly report +work', expected: 'Move "Write quarterly report" to Work' },
+  { input: '/move milk +Errands', expected: 'Move "Buy oat milk" to Errands (new list)' },
+  { input: '/tag milk #errands', expected: 'Tag "Buy oat milk" #shopping #errands' },
+  {
+    input: '/snooze quarterly 2d',
+    expected: 'Snooze "Write quarterly report" to Thu, Oct 22, 9:00 AM – 10:00 AM',
+  },
+  { input: '/snooze milk 2h', expected: 'Snooze "Buy oat milk" to Today, 12:00 PM' },
+  { input: '/snooze review next monday', expected: 'Snooze "Review report draft" to Mon, Oct 26' },
+  { input: '/delete invoice', expected: 'Delete "Send invoice"' },
+  { input: '/list new Travel', expected: 'Create list "Travel"' },
+  // Nothing to run: completed tasks, unknown commands, missing arguments
+  { input: '/done invoice', expected: null },
+  { input: '/frobnicate milk', expected: null },
+  { input: '/move milk', expected: null },
+  { input: '/snooze milk', expected: null },
+  { input: '/list new work', expected: null },
+]
+
+// Run tests
+export function runTests(): void {
+  console.log('🧪 Running Slash Command Tests\n')
+
+  testCases.forEach((testCase, index) => {
+    const command = parseSlashCommand(testCase.input, tasks, lists, { now })
+    const preview = command.action ? describeSlashCommand(command.action, { now }) : null
+
+    console.log(`Test ${index + 1}: ${testCase.input}`)
+    console.log(`  Preview: ${preview ?? command.error}`)
+
+    const passed = preview === testCase.expected && (preview !== null || command.error !== null)
+    console.log(`  Result: ${passed ? '✅ PASS' : '❌ FAIL'}`)
+
+    if (!passed) {
+      console.log(`    - Preview mismatch: expected ${testCase.expected}`)
+    }
+
+    console.log()
+  })
+}
+
+// Export for use in console
+if (typeof window !== 'undefined') {
+  Object.assign(window, { runSlashCommandTests: runTests })
+}
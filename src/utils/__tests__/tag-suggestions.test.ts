@@ -0,0 +1,90 @@
+/**
+ * Tag Suggestion Tests
+ * Demonstrates ranking tags from task history
+ */
+
+import { suggestTags, type TagSuggestionContext } from '@/utils/tag-suggestions'
+
+const now = new Date(2026, 9, 19, 10, 0)
+
+// Helper to create a task from some days ago
+function createTask(title: string, tags: string[], daysAgo: number) {
+  return { title, tags, createdAt: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000) }
+}
+
+const history = [
+  createTask('Deploy API to staging', ['devops', 'work'], 1),
+  createTask('Deploy web app', ['devops', 'release'], 3),
+  createTask('Write quarterly report', ['work'], 2),
+  createTask('Write blog post', ['writing'], 200),
+  createTask('Buy milk', ['shopping'], 0),
+  createTask('Buy bread', ['shopping'], 5),
+  createTask('Pay bills', ['home'], 1),
+]
+
+// Test cases: `expected` is the start of the ranked suggestions
+export const testCases: Array<{
+  name: string
+  history: typeof history
+  context: TagSuggestionContext
+  expected: string[]
+}> = [
+  {
+    name: 'Frequent and recent tags first',
+    history,
+    context: { now },
+    expected: ['work', 'devops', 'shopping'],
+  },
+  {
+    name: 'Tags of similar titles first',
+    history,
+    context: { now, title: 'Deploying the worker' },
+    expected: ['devops', 'work', 'release'],
+  },
+  {
+    name: 'Companions of selected tags first, selected left out',
+    history,
+    context: { now, selected: ['release'] },
+    expected: ['devops', 'work'],
+  },
+  {
+    name: 'A matching title long ago ranks below recent use',
+    history,
+    context: { now, title: 'Write notes' },
+    expected: ['work', 'devops', 'shopping', 'home', 'release', 'writing'],
+  },
+  {
+    name: 'Common tags without history',
+    history: [],
+    context: { now, limit: 3 },
+    expected: ['work', 'personal', 'shopping'],
+  },
+]
+
+// Run tests
+export function runTests(): void {
+  console.log('🧪 Running Tag Suggestion Tests\n')
+
+  testCases.forEach((testCase, index) => {
+    const result = suggestTags(testCase.history, testCase.context).map((tag) => tag.text)
+
+    console.log(`Test ${index + 1}: ${testCase.name}`)
+    console.log(`  Suggestions: ${result.join(', ') || 'None'}`)
+
+    const passed =
+      testCase.expected.every((tag, i) => result[i] === tag) &&
+      (testCase.context.limit === undefined || result.length <= testCase.context.limit)
+    console.log(`  Result: ${passed ? '✅ PASS' : '❌ FAIL'}`)
+
+    if (!passed) {
+      console.log(`    - Ranking mismatch: expected to start with ${testCase.expected.join(', ')}`)
+    }
+
+    console.log()
+  })
+}
+
+// Export for use in console
+if (typeof window !== 'undefined') {
+  Object.assign(window, { runTagSuggestionTests: runTests })
+}
@@ -0,0 +1,332 @@
+/**
+ * Autocomplete Engine
+ * Completes the date, time, tag, priority or list token under the caret in the
+ * quick-add input ("tom" → "tomorrow", "nex fr" → "next friday", "#wo" → "#work")
+ */
+
+import { fuzzyScore } from '@/utils/fuzzy-match'
+import {
+  formatDateForDisplay,
+  getCommonTags,
+  parseTaskInput,
+  type DateOptions,
+} from '@/utils/natural-language-parser'
+import { DEFAULT_HOLIDAY_CALENDAR, getHolidayRules } from '@/utils/holidays'
+import { getLocalePack } from '@/utils/locales'
+
+export type CompletionKind = 'date' | 'time' | 'tag' | 'priority' | 'list' | 'context' | 'assignee'
+
+/**
+ * A ranked completion. `start`/`end` are the offsets of the text it replaces,
+ * which may span several words ("nex fr").
+ */
+export interface Completion {
+  kind: CompletionKind
+  label: string
+  insertText: string
+  icon: string
+  /** Extra context shown next to the label, e.g. the date a phrase resolves to */
+  detail?: string
+  start: number
+  end: number
+  score: number
+}
+
+export interface CompletionSources extends DateOptions {
+  /** Tags to complete after "#", best first */
+  tags?: string[]
+  lists?: string[]
+  /** People and contexts to complete after "@", ahead of lists */
+  people?: string[]
+  contexts?: string[]
+}
+
+const MAX_COMPLETIONS = 6
+
+// Single plain words shorter than this are too common ("to", "on") to complete
+const MIN_WORD_QUERY = 3
+
+// Multi-word phrases are matched against up to this many words before the caret
+const MAX_PHRASE_WORDS = 3
+
+// Icons for completed times of day, by the hour they stand for
+function getTimeIcon(time: string | null): string {
+  const hour = Number(time?.slice(0, 2) ?? 0)
+  if (hour < 12) return '🌅'
+  if (hour < 17) return '🌤️'
+  if (hour < 20) return '🌆'
+  return '🌙'
+}
+
+const PRIORITY_COMPLETIONS = [
+  { text: 'high', icon: '🔴' },
+  { text: 'medium', icon: '📈' },
+  { text: 'low', icon: '📊' },
+]
+
+/**
+ * The whitespace-delimited word around the caret, including any text right after
+ * the caret when it sits inside a word
+ */
+export function getWordAtCaret(
+  input: string,
+  caret: number
+): { start: number; end: number; text: string } {
+  const before = input.slice(0, caret).match(/\S*$/)?.[0] ?? ''
+  const after = input.slice(caret).match(/^\S*/)?.[0] ?? ''
+  const start = caret - before.length
+  const end = caret + after.length
+  return { start, end, text: input.slice(start, end) }
+}
+
+/**
+ * Ranked completions for the token under the caret. A leading "#", "+"/"@" or "!"
+ * completes tags, lists and priorities, and "@" people and contexts too; other
+ * words complete date and time phrases.
+ */
+export function getCompletions(
+  input: string,
+  caret: number,
+  sources: CompletionSources = {}
+): Completion[] {
+  const word = getWordAtCaret(input, caret)
+  if (!word.text || caret !== word.end) return []
+
+  const prefix = word.text[0]
+  const query = word.text.slice(1)
+
+  if (prefix === '#') {
+    // The caller's tags come ranked best first; the common tags only stand in when there are none
+    const tags = sources.tags?.length ? unique(sources.tags) : getCommonTags().map((tag) => tag.text)
+    const icons = new Map(getCommonTags().map((tag) => [tag.text, tag.icon]))
+    return rank(
+      tags.map((tag) => ({
+        kind: 'tag' as const,
+        label: `#${tag}`,
+        insertText: `#${tag}`,
+        icon: icons.get(tag) ?? '🏷️',
+        start: word.start,
+        end: word.end,
+        score: matchScore(query, tag),
+      })),
+      input
+    )
+  }
+
+  if (prefix === '+' || prefix === '@') {
+    // Mentions rank just above a list of the same score
+    const mentions: Completion[] =
+      prefix === '@'
+        ? [
+            ...(sources.people ?? []).map((name) => ({
+              kind: 'assignee' as const,
+              name,
+              icon: '👤',
+            })),
+            ...(sources.contexts ?? []).map((name) => ({
+              kind: 'context' as const,
+              name,
+              icon: '📍',
+            })),
+          ].map(({ kind, name, icon }) => ({
+            kind,
+            label: `@${name}`,
+            insertText: `@${name}`,
+            icon,
+            start: word.start,
+            end: word.end,
+            score: matchScore(query, name) + 0.5,
+          }))
+        : []
+    return rank(
+      mentions.concat(
+        (sources.lists ?? []).map((list) => ({
+          kind: 'list' as const,
+          label: list,
+          // Names with spaces need quotes to stay one list reference
+          insertText: /\s/.test(list) ? `${prefix}"${list}"` : `${prefix}${list}`,
+          icon: '📋',
+          start: word.start,
+          end: word.end,
+          score: matchScore(query.replace(/^"/, ''), list),
+        }))
+      ),
+      input
+    )
+  }
+
+  if (prefix === '!') {
+    return rank(
+      PRIORITY_COMPLETIONS.map((priority) => ({
+        kind: 'priority' as const,
+        label: priority.text,
+        insertText: `!${priority.text}`,
+        icon: priority.icon,
+        start: word.start,
+        end: word.end,
+        score: matchScore(query, priority.text),
+      })),
+      input
+    )
+  }
+
+  return getPhraseCompletions(input, word, sources)
+}
+
+/**
+ * Replace the completion's span with its text and place the caret after it,
+ * adding a space when the completion ends the input
+ */
+export function applyCompletion(
+  input: string,
+  completion: Completion
+): { value: string; caret: number } {
+  const rest = input.slice(completion.end)
+  const separator = rest.startsWith(' ') ? '' : ' '
+  const value = input.slice(0, completion.start) + completion.insertText + separator + rest
+  return { value, caret: completion.start + completion.insertText.length + 1 }
+}
+
+/**
+ * Date and time phrases for the last one to three words before the caret.
+ * Each typed word must match the start of the phrase's words in order, so
+ * "nex fr" reaches "next friday"; longer matches rank higher.
+ */
+function getPhraseCompletions(
+  input: string,
+  word: { start: number; end: number; text: string },
+  options: DateOptions
+): Completion[] {
+  const completions: Completion[] = []
+  const hourMatch = word.text.match(/^(\d{1,2})(?::(\d{2}))?([ap]m?)?$/i)
+  if (hourMatch) {
+    completions.push(...getClockCompletions(input, word, hourMatch))
+  }
+  if (!/^\p{L}/u.test(word.text)) return rank(completions, input)
+
+  // Phrases in the locale's words; holiday names complete like any other date phrase
+  const { dates, times } = getLocalePack(options.locale).completions
+  const holidays = options.holidays ?? getHolidayRules(DEFAULT_HOLIDAY_CALENDAR)
+  const datePhrases = [...dates, ...holidays.map((holiday) => holiday.name.toLowerCase())]
+
+  const words = Array.from(input.slice(0, word.end).matchAll(/\S+/g)).slice(-MAX_PHRASE_WORDS)
+  const firstCount = word.text.length < MIN_WORD_QUERY ? 2 : 1
+  for (let count = firstCount; count <= words.length; count++) {
+    const typed = words.slice(-count)
+    const start = typed[0].index ?? word.start
+    const queryWords = typed.map((match) => match[0].toLowerCase())
+
+    datePhrases.forEach((phrase) => {
+      const score = phraseScore(queryWords, phrase)
+      if (score === 0) return
+      const date = parseTaskInput(phrase, options).scheduledDate
+      completions.push({
+        kind: 'date',
+        label: phrase,
+        insertText: phrase,
+        icon: '📅',
+        detail: date ? formatDateForDisplay(date, options) : undefined,
+        start,
+        end: word.end,
+        score: score + count * 10,
+      })
+    })
+
+    times.forEach((phrase) => {
+      const score = phraseScore(queryWords, phrase)
+      if (score === 0) return
+      const time = parseTaskInput(phrase, options).time
+      completions.push({
+        kind: 'time',
+        label: phrase,
+        insertText: phrase,
+        icon: getTimeIcon(time),
+        detail: time ?? undefined,
+        start,
+        end: word.end,
+        score: score + count * 10,
+      })
+    })
+  }
+
+  return rank(completions, input)
+}
+
+/**
+ * "9" after "at", or "9p" / "10:30a" anywhere, completes to a clock time
+ */
+function getClockCompletions(
+  input: string,
+  word: { start: number; end: number; text: string },
+  match: RegExpMatchArray
+): Completion[] {
+  const hour = parseInt(match[1], 10)
+  const afterAt = /\bat\s+$/i.test(input.slice(0, word.start))
+  if (hour < 1 || hour > 12 || (!match[3] && !afterAt)) return []
+
+  const minutes = match[2] ? `:${match[2]}` : ''
+  const periods = match[3] ? [match[3][0].toLowerCase() === 'a' ? 'am' : 'pm'] : ['am', 'pm']
+  // Without a period, 7-11 read as morning and 12-6 as afternoon, like the parser
+  if (!match[3] && !(hour >= 7 && hour <= 11)) periods.reverse()
+
+  return periods.map((period, index) => ({
+    kind: 'time' as const,
+    label: `${hour}${minutes}${period}`,
+    insertText: `${hour}${minutes}${period}`,
+    icon: '🕐',
+    start: word.start,
+    end: word.end,
+    score: 90 - index,
+  }))
+}
+
+/**
+ * Score typed words against the leading words of a phrase; 0 unless every typed
+ * word matches its counterpart
+ */
+function phraseScore(queryWords: string[], phrase: string): number {
+  const phraseWords = phrase.split(' ')
+  if (queryWords.length > phraseWords.length) return 0
+
+  let total = 0
+  for (let i = 0; i < queryWords.length; i++) {
+    const score = fuzzyScore(queryWords[i], phraseWords[i])
+    // Words must start alike ("tmrw" → "tomorrow", not "fr" → "afternoon"), and
+    // all but the last are complete, so they must at least be a prefix ("nex" of "next")
+    if (score === 0 || queryWords[i][0] !== phraseWords[i][0]) return 0
+    if (i < queryWords.length - 1 && score < 80) return 0
+    total += score
+  }
+  // Phrases with words still to come rank below ones the typed words cover
+  return total / queryWords.length - (phraseWords.length - queryWords.length) * 5
+}
+
+/**
+ * An empty query after a prefix lists everything, otherwise it must fuzzy match
+ */
+function matchScore(query: string, candidate: string): number {
+  return query ? fuzzyScore(query, candidate) : 1
+}
+
+/**
+ * Best matches first, dropping non-matches, duplicates and text that is already typed
+ */
+function rank(completions: Completion[], input: string): Completion[] {
+  const seen = new Set<string>()
+  return completions
+    .filter((completion) => completion.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .filter((completion) => {
+      const key = completion.insertText.toLowerCase()
+      if (seen.has(key) || input.slice(completion.start, completion.end).toLowerCase() === key) {
+        return false
+      }
+      seen.add(key)
+      return true
+    })
+    .slice(0, MAX_COMPLETIONS)
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values))
+}
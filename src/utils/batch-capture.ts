@@ -0,0 +1,58 @@
+/**
+ * Batch Capture
+ * Splits pasted multi-line text (meeting notes, markdown lists) into one parsed
+ * task per line
+ */
+
+import { parseTaskInput, type ParsedTask, type ParseOptions } from '@/utils/natural-language-parser'
+
+/**
+ * One pasted line. `checked` is true for a ticked markdown checkbox ("- [x] ..."),
+ * which is usually already done, and `heading` for a line that introduces the
+ * others ("Action items:", "## Notes"); neither is worth adding by default.
+ */
+export interface BatchItem {
+  line: string
+  text: string
+  checked: boolean
+  heading: boolean
+  parsed: ParsedTask
+}
+
+const HEADING = /^#{1,6}\s|:$/
+
+// "- ", "* ", "• ", "+ " bullets, "1. " / "1) " numbers, then an optional "[ ]" / "[x]" box
+const LIST_MARKER = /^(?:[-*•+]|\d+[.)])\s+(?:\[([ xX])\]\s*)?|^\[([ xX])\]\s*/
+
+/**
+ * Whether text holds more than one task worth of lines
+ */
+export function isMultiLine(text: string): boolean {
+  return text.split(/\r?\n/).filter((line) => line.trim()).length > 1
+}
+
+/**
+ * Strip the list marker and checkbox from a line. Only unmarked lines can be headings.
+ */
+export function stripListMarker(line: string): Pick<BatchItem, 'text' | 'checked' | 'heading'> {
+  const trimmed = line.trim()
+  const match = trimmed.match(LIST_MARKER)
+  if (!match) return { text: trimmed, checked: false, heading: HEADING.test(trimmed) }
+  const box = match[1] ?? match[2]
+  return {
+    text: trimmed.slice(match[0].length).trim(),
+    checked: box?.toLowerCase() === 'x',
+    heading: false,
+  }
+}
+
+/**
+ * Parse every non-empty line of pasted text as its own task
+ */
+export function parseBatchInput(text: string, options: ParseOptions = {}): BatchItem[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => ({ line, ...stripListMarker(line) }))
+    .filter((item) => item.text)
+    .map((item) => ({ ...item, parsed: parseTaskInput(item.text, options) }))
+}
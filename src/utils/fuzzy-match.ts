@@ -0,0 +1,41 @@
+/**
+ * Fuzzy Matching Utilities
+ * Case-insensitive ranking of names against partially typed queries
+ */
+
+/**
+ * Score how well a query matches a candidate string.
+ * Exact matches score highest, then prefixes, word prefixes, substrings and
+ * finally in-order subsequences ("grcy" → "Groceries"). Returns 0 for no match.
+ */
+export function fuzzyScore(query: string, candidate: string): number {
+  const q = query.trim().toLowerCase()
+  const c = candidate.trim().toLowerCase()
+  if (!q || !c) return 0
+
+  if (c === q) return 100
+  if (c.startsWith(q)) return 80 + (q.length / c.length) * 10
+  if (c.split(/[\s_-]+/).some((word) => word.startsWith(q))) return 60 + (q.length / c.length) * 10
+  if (c.includes(q)) return 40 + (q.length / c.length) * 10
+
+  // Subsequence: every query character appears in order
+  let position = 0
+  for (const char of q) {
+    position = c.indexOf(char, position)
+    if (position === -1) return 0
+    position++
+  }
+  return 10 + (q.length / c.length) * 10
+}
+
+/**
+ * Rank items by how well their text matches the query, best first.
+ * Items that do not match at all are left out.
+ */
+export function fuzzyFind<T>(query: string, items: T[], getText: (item: T) => string): T[] {
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item)
+}
@@ -0,0 +1,116 @@
+/**
+ * Holiday Calendars
+ * Rule sets for public holidays and other named days, bundled per country in
+ * src/utils/holiday-calendars/*.json, plus helpers to resolve them to dates
+ */
+
+import us from './holiday-calendars/us.json'
+import gb from './holiday-calendars/gb.json'
+import de from './holiday-calendars/de.json'
+
+/**
+ * A named day, resolved by one of three rules:
+ * - a fixed date: `month` and `day` (and `year` for a one-off custom holiday)
+ * - the `nth` `weekday` of a month (0 = Sunday; nth -1 is the last): Thanksgiving
+ * - a number of days from Easter Sunday: Good Friday is `easter: -2`
+ * Months run 1-12 as written on a calendar. Days with `dayOff: false`
+ * (Halloween, Christmas Eve) can be named in dates but are working days.
+ */
+export type HolidayRule = {
+  name: string
+  /** Other ways to write the name: "xmas", "fourth of july" */
+  aliases?: string[]
+  /** Whether the day is off work, true unless set */
+  dayOff?: boolean
+} & (
+  | { month: number; day: number; year?: number }
+  | { month: number; weekday: number; nth: number }
+  | { easter: number }
+)
+
+export interface HolidayCalendar {
+  id: string
+  name: string
+  holidays: HolidayRule[]
+}
+
+export const HOLIDAY_CALENDARS: HolidayCalendar[] = [us, gb, de]
+
+export const DEFAULT_HOLIDAY_CALENDAR = 'us'
+
+/**
+ * The rules of a bundled calendar followed by custom holidays; custom holidays
+ * alone when the calendar id is unknown (e.g. 'none')
+ */
+export function getHolidayRules(calendarId: string, custom: HolidayRule[] = []): HolidayRule[] {
+  const calendar = HOLIDAY_CALENDARS.find((calendar) => calendar.id === calendarId)
+  return [...(calendar?.holidays ?? []), ...custom]
+}
+
+/**
+ * Easter Sunday of a year (Gregorian calendar, anonymous algorithm)
+ */
+function getEasterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Local midnight of the day a rule falls on in `year`, or null for a one-off
+ * holiday of another year
+ */
+export function getHolidayDate(rule: HolidayRule, year: number): Date | null {
+  if ('easter' in rule) {
+    const date = getEasterSunday(year)
+    date.setDate(date.getDate() + rule.easter)
+    return date
+  }
+  if ('weekday' in rule) {
+    if (rule.nth < 0) {
+      const last = new Date(year, rule.month, 0)
+      last.setDate(last.getDate() - ((last.getDay() - rule.weekday + 7) % 7) + (rule.nth + 1) * 7)
+      return last
+    }
+    const first = new Date(year, rule.month - 1, 1)
+    first.setDate(1 + ((rule.weekday - first.getDay() + 7) % 7) + (rule.nth - 1) * 7)
+    return first
+  }
+  if (rule.year !== undefined && rule.year !== year) return null
+  return new Date(year, rule.month - 1, rule.day)
+}
+
+/**
+ * The next day on or after `from` (a local midnight) that a rule falls on
+ */
+export function getNextHolidayDate(rule: HolidayRule, from: Date): Date | null {
+  const thisYear = getHolidayDate(rule, from.getFullYear())
+  if (thisYear && thisYear >= from) return thisYear
+  if ('year' in rule && rule.year !== undefined) return null
+  return getHolidayDate(rule, from.getFullYear() + 1)
+}
+
+/**
+ * The holiday a day is off for, if any
+ */
+export function getDayOff(date: Date, rules: HolidayRule[]): HolidayRule | undefined {
+  return rules.find((rule) => {
+    if (rule.dayOff === false) return false
+    const holiday = getHolidayDate(rule, date.getFullYear())
+    return (
+      !!holiday && holiday.getMonth() === date.getMonth() && holiday.getDate() === date.getDate()
+    )
+  })
+}
@@ -0,0 +1,101 @@
+/**
+ * German locale pack
+ */
+
+import type { LocalePack } from '@/utils/locales'
+
+const WEEKDAYS = ['montag', 'dienstag', 'mittwoch', 'donnerstag', 'freitag', 'samstag', 'sonntag']
+
+export const de: LocalePack = {
+  id: 'de',
+  name: 'Deutsch',
+  intlLocale: 'de-DE',
+  dateOrder: 'DMY',
+  // Two-letter abbreviations ("so", "do") are everyday words, so only full names count
+  days: {
+    montag: 1,
+    dienstag: 2,
+    mittwoch: 3,
+    donnerstag: 4,
+    freitag: 5,
+    samstag: 6,
+    sonnabend: 6,
+    sonntag: 0,
+  },
+  months: {
+    januar: 0,
+    jänner: 0,
+    februar: 1,
+    märz: 2,
+    maerz: 2,
+    april: 3,
+    mai: 4,
+    juni: 5,
+    juli: 6,
+    august: 7,
+    september: 8,
+    oktober: 9,
+    november: 10,
+    dezember: 11,
+    jan: 0,
+    feb: 1,
+    mär: 2,
+    apr: 3,
+    jun: 5,
+    jul: 6,
+    aug: 7,
+    sep: 8,
+    sept: 8,
+    okt: 9,
+    nov: 10,
+    dez: 11,
+  },
+  ambiguousDays: [],
+  ambiguousMonths: [],
+  yesterday: ['gestern'],
+  today: ['heute'],
+  tomorrow: ['morgen'],
+  dayAfterTomorrow: ['übermorgen'],
+  nextDay: ['(?:nächste[nr]?|kommende[nr]?) {day}'],
+  lastDay: ['(?:letzte[nr]?|vergangene[nr]?) {day}'],
+  monthDay: ['(?:(?:am|zum|dem|den) )?{day}\\.?\\s*{month}(?: {year})?'],
+  dayOfMonth: ['(?:am|zum|dem) {day}\\.'],
+  relative: ['in {amount} {unit}'],
+  ago: ['vor {amount} {unit}'],
+  units: {
+    day: ['tag(?:en?)?'],
+    week: ['wochen?'],
+    month: ['monat(?:en?)?'],
+    hour: ['stunden?'],
+    minute: ['minuten?'],
+  },
+  at: ['um'],
+  clock: ['{hour}(?:[:.]{minute})? uhr'],
+  timeWords: {
+    morgens: '09:00',
+    'am morgen': '09:00',
+    vormittags: '10:00',
+    mittags: '12:00',
+    nachmittags: '14:00',
+    'am nachmittag': '14:00',
+    abends: '18:00',
+    'am abend': '18:00',
+    'heute abend': '20:00',
+    nachts: '21:00',
+  },
+  deadline: ['bis(?: spätestens)?', 'fällig(?: am)?', 'deadline'],
+  before: ['vor'],
+  scheduled: ['am', 'ab(?: dem)?'],
+  done: ['erledigt', 'gemacht'],
+  completions: {
+    dates: [
+      'heute',
+      'morgen',
+      'übermorgen',
+      ...WEEKDAYS,
+      ...WEEKDAYS.map((day) => `nächsten ${day}`),
+    ],
+    times: ['morgens', 'vormittags', 'mittags', 'nachmittags', 'abends', 'heute abend', 'nachts'],
+  },
+  labels: { today: 'Heute', tomorrow: 'Morgen' },
+}
@@ -0,0 +1,106 @@
+/**
+ * English locale pack
+ */
+
+import type { LocalePack } from '@/utils/locales'
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+
+export const en: LocalePack = {
+  id: 'en',
+  name: 'English',
+  intlLocale: 'en-US',
+  dateOrder: 'MDY',
+  days: {
+    monday: 1,
+    tuesday: 2,
+    wednesday: 3,
+    thursday: 4,
+    friday: 5,
+    saturday: 6,
+    sunday: 0,
+    mon: 1,
+    tue: 2,
+    wed: 3,
+    thu: 4,
+    fri: 5,
+    sat: 6,
+    sun: 0,
+  },
+  months: {
+    january: 0,
+    february: 1,
+    march: 2,
+    april: 3,
+    may: 4,
+    june: 5,
+    july: 6,
+    august: 7,
+    september: 8,
+    october: 9,
+    november: 10,
+    december: 11,
+    jan: 0,
+    feb: 1,
+    mar: 2,
+    apr: 3,
+    jun: 5,
+    jul: 6,
+    aug: 7,
+    sep: 8,
+    oct: 9,
+    nov: 10,
+    dec: 11,
+  },
+  ambiguousDays: ['sun', 'wed', 'sat'],
+  // "may 5" can also be the verb followed by a number
+  ambiguousMonths: ['may'],
+  yesterday: ['yesterday'],
+  today: ['today'],
+  tomorrow: ['tomorrow'],
+  dayAfterTomorrow: ['(?:the )?day after tomorrow'],
+  nextDay: ['next {day}'],
+  lastDay: ['last {day}'],
+  monthDay: ['{month} {day}(?:st|nd|rd|th)?(?:,? {year})?'],
+  dayOfMonth: ['the {day}(?:st|nd|rd|th)'],
+  relative: ['in {amount} {unit}'],
+  ago: ['{amount} {unit} ago'],
+  units: {
+    day: ['days?'],
+    week: ['weeks?'],
+    month: ['months?'],
+    hour: ['hours?'],
+    minute: ['minutes?'],
+  },
+  at: ['at'],
+  clock: [],
+  timeWords: {
+    morning: '09:00',
+    afternoon: '14:00',
+    evening: '18:00',
+    night: '21:00',
+    tonight: '20:00',
+  },
+  deadline: ['(?:by|due|deadline)(?: on)?'],
+  before: ['before(?: on)?'],
+  scheduled: ['on', 'start(?:ing)?(?: on)?'],
+  done: ['done', 'did', 'finished'],
+  completions: {
+    dates: [
+      'today',
+      'tomorrow',
+      'day after tomorrow',
+      'this weekend',
+      'next weekend',
+      'next week',
+      'next quarter',
+      'end of week',
+      'end of month',
+      'next workday',
+      ...WEEKDAYS,
+      ...WEEKDAYS.map((day) => `next ${day}`),
+    ],
+    times: ['morning', 'afternoon', 'evening', 'tonight', 'night'],
+  },
+  labels: { today: 'Today', tomorrow: 'Tomorrow' },
+}
@@ -0,0 +1,103 @@
+/**
+ * Spanish locale pack
+ */
+
+import type { LocalePack } from '@/utils/locales'
+
+const WEEKDAYS = ['lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado', 'domingo']
+
+export const es: LocalePack = {
+  id: 'es',
+  name: 'Español',
+  intlLocale: 'es-ES',
+  dateOrder: 'DMY',
+  // "mar" is left to marzo rather than martes
+  days: {
+    lunes: 1,
+    martes: 2,
+    miércoles: 3,
+    miercoles: 3,
+    jueves: 4,
+    viernes: 5,
+    sábado: 6,
+    sabado: 6,
+    domingo: 0,
+    lun: 1,
+    mié: 3,
+    jue: 4,
+    vie: 5,
+    sáb: 6,
+    dom: 0,
+  },
+  months: {
+    enero: 0,
+    febrero: 1,
+    marzo: 2,
+    abril: 3,
+    mayo: 4,
+    junio: 5,
+    julio: 6,
+    agosto: 7,
+    septiembre: 8,
+    setiembre: 8,
+    octubre: 9,
+    noviembre: 10,
+    diciembre: 11,
+    ene: 0,
+    feb: 1,
+    mar: 2,
+    abr: 3,
+    jun: 5,
+    jul: 6,
+    ago: 7,
+    sep: 8,
+    sept: 8,
+    oct: 9,
+    nov: 10,
+    dic: 11,
+  },
+  ambiguousDays: [],
+  ambiguousMonths: [],
+  yesterday: ['ayer'],
+  today: ['hoy'],
+  // "por la mañana" is a time of day, read before dates are
+  tomorrow: ['mañana'],
+  dayAfterTomorrow: ['pasado mañana'],
+  nextDay: ['(?:el )?pr[óo]xim[oa] {day}', '{day} (?:que viene|pr[óo]xim[oa])'],
+  lastDay: ['(?:el )?[úu]ltim[oa] {day}', '(?:el )?{day} pasado'],
+  monthDay: ['{day} de {month}(?: (?:de|del) {year})?'],
+  dayOfMonth: ['el (?:d[íi]a )?{day}'],
+  relative: ['(?:en|dentro de) {amount} {unit}'],
+  ago: ['hace {amount} {unit}'],
+  units: {
+    day: ['d[íi]as?'],
+    week: ['semanas?'],
+    month: ['mes(?:es)?'],
+    hour: ['horas?'],
+    minute: ['minutos?'],
+  },
+  at: ['a las?'],
+  clock: [],
+  timeWords: {
+    'por la mañana': '09:00',
+    'por la tarde': '14:00',
+    'esta tarde': '14:00',
+    'por la noche': '21:00',
+    'esta noche': '20:00',
+  },
+  deadline: ['(?:para|hasta|vence)(?: el)?'],
+  before: ['antes del?'],
+  scheduled: ['el', 'desde el', 'a partir del?'],
+  done: ['hech[oa]', 'terminad[oa]'],
+  completions: {
+    dates: [
+      'hoy',
+      'mañana',
+      'pasado mañana',
+      ...WEEKDAYS,
+      ...WEEKDAYS.map((day) => `el próximo ${day}`),
+    ],
+    times: ['por la mañana', 'por la tarde', 'esta tarde', 'esta noche', 'por la noche'],
+  },
+  labels: { today: 'Hoy', tomorrow: 'Mañana' },
+}
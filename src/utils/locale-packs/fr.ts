@@ -0,0 +1,96 @@
+/**
+ * French locale pack
+ */
+
+import type { LocalePack } from '@/utils/locales'
+
+const WEEKDAYS = ['lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche']
+
+export const fr: LocalePack = {
+  id: 'fr',
+  name: 'Français',
+  intlLocale: 'fr-FR',
+  dateOrder: 'DMY',
+  // Abbreviations like "mer" and "jeu" are everyday words, so only full names count
+  days: {
+    lundi: 1,
+    mardi: 2,
+    mercredi: 3,
+    jeudi: 4,
+    vendredi: 5,
+    samedi: 6,
+    dimanche: 0,
+  },
+  months: {
+    janvier: 0,
+    février: 1,
+    fevrier: 1,
+    mars: 2,
+    avril: 3,
+    mai: 4,
+    juin: 5,
+    juillet: 6,
+    août: 7,
+    aout: 7,
+    septembre: 8,
+    octobre: 9,
+    novembre: 10,
+    décembre: 11,
+    decembre: 11,
+    janv: 0,
+    févr: 1,
+    avr: 3,
+    juil: 6,
+    sept: 8,
+    oct: 9,
+    nov: 10,
+    déc: 11,
+  },
+  ambiguousDays: [],
+  ambiguousMonths: [],
+  yesterday: ['hier'],
+  today: ["aujourd['’]hui"],
+  tomorrow: ['demain'],
+  dayAfterTomorrow: ['apr[èe]s[- ]demain'],
+  nextDay: ['{day} prochain', 'prochain {day}'],
+  lastDay: ['{day} dernier'],
+  monthDay: ['{day}(?:er)? {month}(?: {year})?'],
+  dayOfMonth: ['le {day}(?:er)?'],
+  relative: ['dans {amount} {unit}'],
+  ago: ['il y a {amount} {unit}'],
+  units: {
+    day: ['jours?'],
+    week: ['semaines?'],
+    month: ['mois'],
+    hour: ['heures?'],
+    minute: ['minutes?'],
+  },
+  at: ['à'],
+  // A bare "2h" is a duration, so hours alone need "à" in front
+  clock: ['à {hour}\\s*h(?:{minute})?', '{hour}h{minute}'],
+  timeWords: {
+    matin: '09:00',
+    'le matin': '09:00',
+    "l['’]?apr[èe]s-midi": '14:00',
+    soir: '18:00',
+    'le soir': '18:00',
+    'ce soir': '20:00',
+    nuit: '21:00',
+    'la nuit': '21:00',
+  },
+  deadline: ["d['’]ici(?: le)?", 'pour le', 'au plus tard(?: le)?', 'échéance'],
+  before: ['avant(?: le)?'],
+  scheduled: ['le', 'à partir du?', 'dès le'],
+  done: ['fait', 'terminé', 'fini'],
+  completions: {
+    dates: [
+      "aujourd'hui",
+      'demain',
+      'après-demain',
+      ...WEEKDAYS,
+      ...WEEKDAYS.map((day) => `${day} prochain`),
+    ],
+    times: ['matin', 'après-midi', 'soir', 'ce soir', 'nuit'],
+  },
+  labels: { today: "Aujourd'hui", tomorrow: 'Demain' },
+}
@@ -0,0 +1,84 @@
+/**
+ * Locale Packs
+ * The vocabulary quick add reads dates and times in, one pack per language in
+ * src/utils/locale-packs/*.ts, plus the conventions dates are read and shown with
+ */
+
+import type { DateOrder } from '@/utils/natural-language-parser'
+import { en } from './locale-packs/en'
+import { de } from './locale-packs/de'
+import { es } from './locale-packs/es'
+import { fr } from './locale-packs/fr'
+
+/**
+ * The words of one language for the parser's localized rules. Phrases are
+ * lowercase regular expression sources matched case-insensitively as whole
+ * words, where a space stands for any run of whitespace. Templates mark the
+ * parts a rule reads with `{day}` (a day name in `nextDay`, a day of the month
+ * elsewhere), `{month}`, `{year}`, `{amount}`, `{unit}`, `{hour}` and `{minute}`.
+ *
+ * Everything else quick add understands (#tags, !priority, +lists, numeric dates,
+ * "2-3pm", recurrence, reminders, estimates, business days, holidays) is the
+ * same in every locale.
+ */
+export interface LocalePack {
+  id: string
+  /** The language's own name, for the settings picker */
+  name: string
+  /** BCP 47 tag dates are displayed with: "en-US", "de-DE" */
+  intlLocale: string
+  /** How numeric dates like 03/04/2027 are read unless set explicitly */
+  dateOrder: DateOrder
+  /** Day names and abbreviations to Date#getDay() numbers (0 = Sunday) */
+  days: Record<string, number>
+  /** Month names and abbreviations to month numbers (0 = January) */
+  months: Record<string, number>
+  /** Day and month names that are everyday words too ("sun", "may"), offered back as text */
+  ambiguousDays: string[]
+  ambiguousMonths: string[]
+  yesterday: string[]
+  today: string[]
+  tomorrow: string[]
+  dayAfterTomorrow: string[]
+  /** The coming occurrence of a day after today: "next {day}" */
+  nextDay: string[]
+  /** The latest occurrence of a day before today: "last {day}" */
+  lastDay: string[]
+  /** A day of a named month, with or without a year: "{month} {day}" */
+  monthDay: string[]
+  /** A day of the month on its own, the next time it comes around: "the {day}th" */
+  dayOfMonth: string[]
+  /** An amount of time from now: "in {amount} {unit}" */
+  relative: string[]
+  /** An amount of time before now: "{amount} {unit} ago" */
+  ago: string[]
+  units: Record<'day' | 'week' | 'month' | 'hour' | 'minute', string[]>
+  /** The word in front of a time: "at 5pm" */
+  at: string[]
+  /** 24-hour clock phrases besides HH:MM: "{hour} uhr" */
+  clock: string[]
+  /** Times of day and the HH:MM they stand for */
+  timeWords: Record<string, string>
+  /** Words in front of a deadline: "by friday"; `before` ones move it a day earlier */
+  deadline: string[]
+  before: string[]
+  /** Words in front of a scheduled date that settle any doubt about it: "on sat" */
+  scheduled: string[]
+  /** Words that, followed by a colon, log the input as work already done: "done:" */
+  done: string[]
+  /** Phrases offered by autocomplete, as typed */
+  completions: { dates: string[]; times: string[] }
+  /** Display names of the nearest days */
+  labels: { today: string; tomorrow: string }
+}
+
+export const LOCALE_PACKS: LocalePack[] = [en, de, es, fr]
+
+export const DEFAULT_LOCALE = 'en'
+
+/**
+ * The pack of a locale id, English when the id is unknown or unset
+ */
+export function getLocalePack(id: string = DEFAULT_LOCALE): LocalePack {
+  return LOCALE_PACKS.find((pack) => pack.id === id) ?? en
+}
@@ -1,197 +1,1111 @@
 /**
  * Natural Language Parser for Task Input
- * Parses user input to extract dates, times, and tags
+ * Parses user input to extract scheduled dates, deadlines, times, tags,
+ * priorities, target lists, contexts, assignees, duration estimates,
+ * recurrence rules, links (URLs, emails, phone numbers) and inline subtasks
+ * ("Plan trip: book flights; reserve hotel"), along with the spans of the input
+ * each value was read from. Dates and times are read in the vocabulary of a
+ * locale pack (src/utils/locales.ts), English by default.
  */
 
+import {
+  DEFAULT_HOLIDAY_CALENDAR,
+  getDayOff,
+  getHolidayRules,
+  getNextHolidayDate,
+  type HolidayRule,
+} from '@/utils/holidays'
+import { readLink, type LinkMatch, type TaskLink } from '@/utils/task-links'
+import { DEFAULT_LOCALE, getLocalePack, type LocalePack } from '@/utils/locales'
+import { fuzzyScore } from '@/utils/fuzzy-match'
+
+export type ParsedTokenKind =
+  | 'date'
+  | 'deadline'
+  | 'time'
+  | 'tag'
+  | 'priority'
+  | 'list'
+  | 'context'
+  | 'assignee'
+  | 'estimate'
+  | 'recurrence'
+  | 'reminder'
+  | 'shortcut'
+  | 'link'
+  | 'done'
+  | 'subtask'
+
+/**
+ * A span of the raw input that the parser recognized and consumed.
+ * `start`/`end` are offsets into `rawInput`, `value` is the normalized result
+ * (YYYY-MM-DD for dates and deadlines, HH:MM for times or HH:MM-HH:MM for time ranges,
+ * the lowercased tag name for tags,
+ * low/medium/high for priorities, the list name as typed for lists, the
+ * registered name for contexts and assignees, the number of minutes for estimates, the formatRecurrence() summary for
+ * recurrence rules, the formatReminder() summary for reminders, the text a
+ * user-defined shortcut stands for, the href of links, "done" for the prefix of work
+ * logged as already done, the title of inline subtasks). A subtask's span runs from
+ * the ":" or ";" before it to the end of its text.
+ */
+export interface ParsedToken {
+  kind: ParsedTokenKind
+  start: number
+  end: number
+  text: string
+  value: string
+  /** How sure the parser is about this reading, from 0 to 1 (1 when unambiguous) */
+  confidence: number
+  /** Other readings of an ambiguous token ("sun" the word, "at 5" in the morning) */
+  alternatives: TokenInterpretation[]
+}
+
+/**
+ * When to be reminded of a task: a number of minutes before it starts
+ * ("remind me 1h before") or an HH:MM time on the task's day ("remind me at 4pm")
+ */
+export interface Reminder {
+  minutesBefore?: number
+  time?: string
+}
+
+/**
+ * A possible reading of an ambiguous token. `value` is normalized like
+ * ParsedToken.value, or null to keep the token's text in the title.
+ */
+export interface TokenInterpretation {
+  label: string
+  value: string | null
+}
+
+export type TaskPriority = 'low' | 'medium' | 'high'
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+/**
+ * Structured repeat rule, e.g. "every 2 weeks" or "every month on the 1st".
+ * `weekdays` uses Date#getDay() numbering (0 = Sunday).
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  weekdays?: number[]
+  dayOfMonth?: number
+  until?: Date
+  count?: number
+}
+
 export interface ParsedTask {
   title: string
+  /** The date the task is filed under: its scheduled date, or its deadline when unscheduled */
   date: Date | null
+  /** When work should start: "tomorrow", "on friday", "start monday" */
+  scheduledDate: Date | null
+  /** When the task must be done: "by friday", "due jan 15", "before monday", "deadline 3/1/2027" */
+  deadline: Date | null
+  /** When the task starts: midnight of its day when all-day, otherwise the exact moment */
+  start: Date | null
+  /** When a time range ("2-3pm", "from 9 to 11") ends, null for open-ended tasks */
+  end: Date | null
+  /** True when the task is on a day but has no time of day */
+  allDay: boolean
+  /** HH:MM of `start` for timed tasks, null for all-day ones; a view kept for display and editing */
   time: string | null
   tags: string[]
+  priority: TaskPriority | null
+  /** Name of the list referenced with +List or @"List name", as typed */
+  list: string | null
+  /** GTD contexts the task can be done in: "@home", "@phone" */
+  contexts: string[]
+  /** People the task is assigned to: "@alice" */
+  assignees: string[]
+  /** How long the task is expected to take, from "~2h", "for 15m", "90 minutes" */
+  estimateMinutes: number | null
+  recurrence: RecurrenceRule | null
+  reminders: Reminder[]
+  /** URLs, email addresses and phone numbers, shown in the title by their labels ("PR #42") */
+  links: TaskLink[]
+  /**
+   * When work logged as already done ("done: called the bank yesterday 3pm") was
+   * finished: the moment or day it names, now when it names none. Null for work still to do.
+   */
+  completedAt: Date | null
+  /**
+   * Children listed after a colon, split by semicolons ("Plan trip: book flights;
+   * reserve hotel"), each parsed on its own. They take the parent's date and tags
+   * unless they set their own. Empty for a single task.
+   */
+  subtasks: ParsedTask[]
+  tokens: ParsedToken[]
+  /** Lowest token confidence, 1 when nothing in the input was ambiguous */
+  confidence: number
   rawInput: string
 }
 
-// Time patterns
-const TIME_PATTERNS = [
-  /\b(0?[0-9]|1[0-9]|2[0-3]):([0-5][0-9])\s*(am|pm|AM|PM)?\b/,
-  /\b(morning|afternoon|evening|night|tonight)\b/i,
-  /\b(at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|AM|PM)\b/i,
-]
+/**
+ * A user-defined quick-add shortcut. Typed as a word of its own, the trigger
+ * ("standup", ";;gro", "eod") stands for an `expansion` parsed like typed text
+ * ("Standup weekdays 9:30 #work +Team"), or for a set of `fields` ("eod" = today 17:00).
+ */
+export type ShortcutRule =
+  | { id: string; kind: 'expansion'; trigger: string; expansion: string }
+  | { id: string; kind: 'keyword'; trigger: string; fields: ShortcutFields }
 
-// Date patterns
-const DATE_PATTERNS = [
-  /\b(today)\b/i,
-  /\b(tomorrow)\b/i,
-  /\b(tonight)\b/i,
-  /\b(next\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday))\b/i,
-  /\b(mon|tue|wed|thu|fri|sat|sun)\b/i,
-  /\b(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i,
-  /\b(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})\b/,
-  /\b(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\s+(\d{1,2})\b/i,
-  /\b(in\s+)?(\d+)\s+(day|days|week|weeks|month|months|hour|hours|minute|minutes)\b/i,
-]
+export interface ShortcutFields {
+  /** A date phrase the parser understands: "today", "friday", "end of month" */
+  date?: string
+  /** HH:MM */
+  time?: string
+  priority?: TaskPriority
+  tags?: string[]
+  list?: string
+}
+
+/**
+ * The people and contexts "@name" mentions can refer to. An "@name" found in
+ * neither is a list, as before mentions existed.
+ */
+export interface MentionRegistry {
+  people: string[]
+  contexts: string[]
+}
 
-// Tag patterns (starting with # or after "tag:")
-const TAG_PATTERNS = [/#([a-zA-Z0-9_-]+)/g, /tag:\s*([a-zA-Z0-9_\s,]+)/gi]
-
-const DAYS_OF_WEEK: Record<string, number> = {
-  monday: 1,
-  tuesday: 2,
-  wednesday: 3,
-  thursday: 4,
-  friday: 5,
-  saturday: 6,
-  sunday: 0,
-  mon: 1,
-  tue: 2,
-  wed: 3,
-  thu: 4,
-  fri: 5,
-  sat: 6,
-  sun: 0,
-}
-
-const MONTHS: Record<string, number> = {
-  january: 0,
-  february: 1,
-  march: 2,
-  april: 3,
-  may: 4,
-  june: 5,
-  july: 6,
-  august: 7,
-  september: 8,
-  october: 9,
-  november: 10,
-  december: 11,
-  jan: 0,
-  feb: 1,
-  mar: 2,
-  apr: 3,
-  jun: 5,
-  jul: 6,
-  aug: 7,
-  sep: 8,
-  oct: 9,
-  nov: 10,
-  dec: 11,
-}
-
-/**
- * Parse date from user input
- */
-function parseDate(input: string): Date | null {
-  const lowerInput = input.toLowerCase()
+export interface TextRange {
+  start: number
+  end: number
+}
 
-  // Today
-  if (/\btoday\b/.test(lowerInput)) {
-    const date = new Date()
-    date.setHours(0, 0, 0, 0)
-    return date
+/** Order of the day and month in numeric dates: 03/04/2027 is March 4 (MDY) or 3 April (DMY) */
+export type DateOrder = 'MDY' | 'DMY'
+
+/**
+ * Clock settings shared by parsing, suggestions and display. Fixing `now` and
+ * `timeZone` makes results independent of the wall clock and the runtime's zone.
+ */
+export interface DateOptions {
+  /** The moment to resolve relative dates against, defaults to the current time */
+  now?: Date
+  /** IANA time zone that decides which calendar day `now` falls on, e.g. "Europe/Berlin" */
+  timeZone?: string
+  /** First day of the week (0 = Sunday, 1 = Monday), defaults to Monday */
+  weekStartsOn?: number
+  /** Days of the week that are working days (0 = Sunday), defaults to Monday to Friday */
+  workWeek?: number[]
+  /**
+   * Named days that dates can refer to ("christmas", "thanksgiving"); the ones off
+   * work are skipped by business-day phrases. Defaults to the US calendar.
+   */
+  holidays?: HolidayRule[]
+  /** Id of the locale pack dates are read and displayed in ('en', 'de', 'es', 'fr'), English by default */
+  locale?: string
+}
+
+export interface ParseOptions extends DateOptions {
+  /** Ranges of the input that must stay in the title as plain text */
+  literalRanges?: TextRange[]
+  /** How to read numeric dates like 03/04/2027, defaults to the locale's order ('MDY' in English) */
+  dateOrder?: DateOrder
+  /** Take the whole input as the title: nothing is recognized, quotes and backslashes stay */
+  plainText?: boolean
+  /**
+   * User-defined shortcuts, applied before the built-in rules. What they set is a
+   * default that text typed alongside them can override ("eod friday" is friday 17:00).
+   */
+  shortcuts?: ShortcutRule[]
+  /** Known people and contexts, common GTD contexts and nobody by default */
+  mentions?: MentionRegistry
+  /**
+   * Log the input as work already done, as a "done:" prefix does. Day names and
+   * dates without a year then mean the last time they came around ("friday" = last friday).
+   */
+  completed?: boolean
+}
+
+interface SpanMatch<T> extends TextRange {
+  value: T
+  confidence?: number
+  alternatives?: TokenInterpretation[]
+  /**
+   * Which of its rule's readings this is, 0 for the most specific; a field with one
+   * value keeps the reading of the lowest rank (see readGrammar)
+   */
+  rank?: number
+}
+
+interface DateMatch extends SpanMatch<Date> {
+  /** HH:MM when the phrase also fixes the time of day ("in 2 hours") */
+  time?: string
+}
+
+interface Mention {
+  kind: 'context' | 'assignee'
+  name: string
+}
+
+interface TimeMatch extends SpanMatch<string> {
+  /** HH:MM at which a time range ("2-3pm", "from 9 to 11") ends */
+  endTime?: string
+}
+
+/**
+ * The regular expressions a locale pack's vocabulary compiles to. All but `done`,
+ * `units` and `timeWordValues` are sticky, read with matchAt.
+ */
+interface LocalePatterns {
+  yesterday: RegExp
+  today: RegExp
+  tomorrow: RegExp
+  dayAfterTomorrow: RegExp
+  nextDay: RegExp[]
+  lastDay: RegExp[]
+  day: RegExp
+  monthDay: RegExp[]
+  dayOfMonth: RegExp[]
+  relative: RegExp[]
+  ago: RegExp[]
+  units: Array<[keyof LocalePack['units'], RegExp]>
+  clock: RegExp[]
+  standardTime: RegExp
+  hourTime: RegExp
+  bareHour: RegExp
+  timeWord: RegExp
+  timeWordValues: Array<[RegExp, string]>
+  deadline: RegExp
+  scheduled: RegExp
+  done: RegExp
+}
+
+/**
+ * What the grammar reads: the input with literal, done and subtask text masked, the
+ * same text lowercased for the rules of dates and times, and what they are read with
+ */
+interface GrammarContext {
+  scan: string
+  lower: string
+  options: ParseOptions
+  locale: LocalePack
+  patterns: LocalePatterns
+  /** Local midnight of the day relative dates count from */
+  today: Date
+}
+
+/**
+ * What the grammar read for each field of a task: every link, shortcut, mention, tag
+ * and reminder, and at most one of the rest
+ */
+interface GrammarMatches {
+  links: LinkMatch[]
+  shortcuts: SpanMatch<ShortcutRule>[]
+  mentions: SpanMatch<Mention>[]
+  tags: SpanMatch<string[]>[]
+  reminders: SpanMatch<Reminder>[]
+  list: SpanMatch<string> | null
+  priority: SpanMatch<TaskPriority> | null
+  recurrence: SpanMatch<RecurrenceRule> | null
+  deadline: DateMatch | null
+  date: DateMatch | null
+  time: TimeMatch | null
+  estimate: SpanMatch<number> | null
+}
+
+type GrammarField = keyof GrammarMatches
+
+/**
+ * A rule of the grammar: reads a token of its field starting exactly at an offset, or
+ * null. A rule without a field reads text that stays in the title.
+ */
+type GrammarRule =
+  | {
+      [F in GrammarField]: {
+        field: F
+        read: (
+          context: GrammarContext,
+          at: number
+        ) => (GrammarMatches[F] extends Array<infer M> ? M : NonNullable<GrammarMatches[F]>) | null
+      }
+    }[GrammarField]
+  | { field: null; read: (context: GrammarContext, at: number) => TextRange | null }
+
+// The part of a reading the grammar walks by
+type RankedSpan = Pick<SpanMatch<unknown>, 'start' | 'end' | 'rank'>
+
+/**
+ * A date phrase of the grammar: reads a date starting exactly at an offset, or null
+ */
+type DateRule = (context: GrammarContext, at: number) => DateMatch | null
+
+// Literal, done and subtask spans are blanked out with this character before the
+// grammar reads the input; it is neither a word character nor whitespace, so it never
+// joins neighbouring words into a new match.
+const MASK_CHAR = '\u0000'
+
+// A word or number, or any other single character that is not whitespace or masked
+const LEXEME_PATTERN = new RegExp(`[\\p{L}\\p{N}_]+|[^\\s\\p{L}\\p{N}_${MASK_CHAR}]`, 'gu')
+
+// Word edges that also hold next to letters outside ASCII ("übermorgen"), unlike \b
+const WORD_START = '(?<![\\p{L}\\p{N}_])'
+const WORD_END = '(?![\\p{L}\\p{N}_])'
+
+// Recurrence phrases are English in every locale
+const DAYS_OF_WEEK = getLocalePack(DEFAULT_LOCALE).days
+
+const DAY_NAME_PATTERN =
+  'monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tue|wed|thu|fri|sat|sun'
+
+// One or more day names: "mon", "monday and thursday", "mon, wed & fri"
+const DAY_LIST_PATTERN = `(?:${DAY_NAME_PATTERN})(?:\\s*(?:,|and|&)\\s*(?:${DAY_NAME_PATTERN}))*`
+
+export const DEFAULT_CONTEXTS = ['home', 'office', 'errands', 'phone', 'computer', 'anywhere']
+
+const DEFAULT_WORK_WEEK = [1, 2, 3, 4, 5]
+
+// When a bare "remind me" fires on a task without a time of day
+export const DEFAULT_REMINDER_TIME = '09:00'
+
+const DEFAULT_HOLIDAYS = getHolidayRules(DEFAULT_HOLIDAY_CALENDAR)
+
+// "business days", "working days", "workdays", "weekdays"
+const WORKDAY_UNIT_PATTERN = '(?:business|working|work)\\s+days?|workdays?|weekdays?'
+
+// The patterns of the grammar's rules are sticky: each is run at one offset at a time
+// (see matchAt). Date and time patterns are run on lowercased text.
+
+// "2 weekdays after …", "in 3 business days", "5 workdays from now", and the count in
+// front of a "before" that makes it part of such a phrase
+const WORKDAYS_FROM_DATE = new RegExp(
+  `\\b(\\d+)\\s+(?:${WORKDAY_UNIT_PATTERN})\\s+(after|before|from)\\s+`,
+  'y'
+)
+const WORKDAYS_FROM_TODAY = new RegExp(
+  `\\bin\\s+(\\d+)\\s+(?:${WORKDAY_UNIT_PATTERN})\\b|` +
+    `\\b(\\d+)\\s+(?:${WORKDAY_UNIT_PATTERN})\\s+from\\s+now\\b`,
+  'y'
+)
+const WORKDAY_COUNT_BEFORE = new RegExp(`\\b\\d+\\s+(?:${WORKDAY_UNIT_PATTERN})\\s+$`, 'i')
+
+const NEXT_WORKDAY = /\bnext\s+(?:business\s+day|working\s+day|work\s*day|weekday)\b/y
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/y
+const WEEKEND = /\b(this|next)\s+weekend\b/y
+const NEXT_WEEK = /\bnext\s+week\b/y
+const END_OF_WEEK = /\b(?:(?:the\s+)?end\s+of\s+(?:the\s+)?week|eow)\b/y
+const END_OF_MONTH = /\b(?:(?:the\s+)?end\s+of\s+(?:the\s+)?month|eom)\b/y
+const NEXT_QUARTER = /\bnext\s+quarter\b/y
+const NUMERIC_DATE = /\b(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{2,4})\b/y
+
+// "2-3pm", "9am to 11am", "from 9 to 11", "2:30-4pm"
+const TIME_RANGE =
+  /\b(?:(from|at)\s+)?(\d{1,2})(?::([0-5]\d))?(?:\s*(am|pm))?\s*(?:-|–|to|until|till)\s*(\d{1,2})(?::([0-5]\d))?(?:\s*(am|pm))?\b/y
+
+// "weekdays", "every weekday", "every weekend" (not "2 weekdays after ...", which counts
+// working days)
+const RECURRENCE_WORKWEEK =
+  /\b(?:every\s+(weekday|weekend)s?|(?<!\d\s+)(weekdays|weekends))\b(?!\s+(?:after|before|from)\b)/iy
+
+// "every monday", "every other tue and thu"
+const RECURRENCE_DAYS = new RegExp(`\\b(every\\s+(other\\s+)?)(${DAY_LIST_PATTERN})\\b`, 'iy')
+
+// "daily", "every 2 weeks", "every other month", "every month on the 1st"
+const RECURRENCE_UNIT = new RegExp(
+  `\\b(?:every\\s+(other\\s+|\\d+\\s+)?(day|week|month|year)s?|(daily|weekly|monthly|yearly|annually))\\b` +
+    `(?:\\s+on\\s+(?:the\\s+(\\d{1,2})(?:st|nd|rd|th)?|(${DAY_LIST_PATTERN}))\\b)?`,
+  'iy'
+)
+
+// "every 15th"
+const RECURRENCE_DAY_OF_MONTH = /\bevery\s+(\d{1,2})(?:st|nd|rd|th)\b/iy
+
+// The end of a recurrence: "until march 1", "for 5 times"
+const RECURRENCE_UNTIL = /\s+until\s+/iy
+const RECURRENCE_COUNT = /\s+(?:for\s+)?(\d+)\s+times\b/iy
+
+// "remind me", then "1h before" or "at 4pm"
+const REMIND_ME = /\bremind\s+me\b/iy
+const REMINDER_BEFORE =
+  /\s+(\d+)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?)\s+(?:before|early|earlier|ahead)\b/iy
+const REMINDER_AT = /\s+(?=at\s)/iy
+
+// "+Groceries", "@Work", +"Side project", @"Side project"
+const LIST_REFERENCE = /(?<!\S)[+@](?:"([^"]+)"|([a-zA-Z][\w-]*))/y
+const MENTION = /(?<!\S)@([a-zA-Z][\w-]*)/y
+const HASHTAG = /#([a-zA-Z0-9_-]+)/y
+const TAG_LIST = /tag:\s*([a-zA-Z0-9_\s,]+)/iy
+
+// "!high", "!med", "!urgent", "!l"; "!!!", "!!", "!"; "p1", "urgent"
+const NAMED_PRIORITY = /(?<!\S)!(high|medium|med|low|urgent|h|m|l)\b/iy
+const BANG_PRIORITY = /(?<!\S)(!{1,3})(?!\S)/y
+const PRIORITY_KEYWORD = /\b(p[123]|urgent)\b/iy
+
+// "~2h", "for 15m", "90 minutes", "1h 30m", but not the "2 hours" of "in 2 hours"
+const ESTIMATE =
+  /(?<!\bin\s+)(?:~\s*|\bfor\s+|\b)(?:(\d+(?:\.\d+)?)(?:h|\s*(?:hrs?|hours?))\b(?:\s*(\d+)(?:m|\s*(?:mins?|minutes?))\b)?|(\d+)(?:m|\s*(?:mins?|minutes?))\b)/iy
+
+const RECURRENCE_UNITS: Record<string, RecurrenceFrequency> = {
+  day: 'daily',
+  daily: 'daily',
+  week: 'weekly',
+  weekly: 'weekly',
+  month: 'monthly',
+  monthly: 'monthly',
+  year: 'yearly',
+  yearly: 'yearly',
+  annually: 'yearly',
+}
+
+const PRIORITY_WORDS: Record<string, TaskPriority> = {
+  high: 'high',
+  h: 'high',
+  medium: 'medium',
+  med: 'medium',
+  m: 'medium',
+  low: 'low',
+  l: 'low',
+  p1: 'high',
+  p2: 'medium',
+  p3: 'low',
+  urgent: 'high',
+}
+
+// Compiled patterns per locale pack id, built on first use
+const LOCALE_PATTERNS = new Map<string, LocalePatterns>()
+
+// Holiday name patterns per holiday list
+const HOLIDAY_PATTERNS = new WeakMap<HolidayRule[], RegExp>()
+
+// Trigger patterns per shortcut list, each with its shortcut
+const SHORTCUT_PATTERNS = new WeakMap<ShortcutRule[], Array<[RegExp, ShortcutRule]>>()
+/**
+ * The "keep it in the title" reading offered for an ambiguous span
+ */
+function keepAsText(input: string, span: TextRange): TokenInterpretation {
+  return { label: `Keep "${input.slice(span.start, span.end)}" as text`, value: null }
+}
+
+/**
+ * Format an HH:MM time as "5:00 PM"
+ */
+function formatTimeLabel(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  const period = hours < 12 ? 'AM' : 'PM'
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${period}`
+}
+
+/**
+ * Build a SpanMatch from a regex match
+ */
+function toSpan<T>(match: RegExpMatchArray, value: T): SpanMatch<T> {
+  const start = match.index ?? 0
+  return { start, end: start + match[0].length, value }
+}
+
+/**
+ * Replace the given ranges with MASK_CHAR, keeping every other offset intact
+ */
+function maskRanges(input: string, ranges: TextRange[]): string {
+  let masked = input
+  ranges.forEach(({ start, end }) => {
+    masked = masked.slice(0, start) + MASK_CHAR.repeat(end - start) + masked.slice(end)
+  })
+  return masked
+}
+
+/**
+ * Match a sticky pattern exactly at `at`; lookbehinds still see the text before it
+ */
+function matchAt(pattern: RegExp, text: string, at: number): RegExpExecArray | null {
+  pattern.lastIndex = at
+  return pattern.exec(text)
+}
+
+/**
+ * The match of the first of the sticky patterns that matches at `at`
+ */
+function findAt(text: string, at: number, patterns: RegExp[]): RegExpExecArray | null {
+  for (const pattern of patterns) {
+    const match = matchAt(pattern, text, at)
+    if (match) return match
   }
+  return null
+}
 
-  // Tomorrow
-  if (/\btomorrow\b/.test(lowerInput)) {
-    const date = new Date()
-    date.setDate(date.getDate() + 1)
-    date.setHours(0, 0, 0, 0)
-    return date
+/**
+ * Split text into its words, numbers and other characters in one pass, skipping
+ * whitespace and masked text, and return where each starts: the offsets the grammar
+ * reads tokens from
+ */
+function tokenize(text: string): number[] {
+  return Array.from(text.matchAll(LEXEME_PATTERN), (match) => match.index ?? 0)
+}
+
+/**
+ * Alternation of literal words, longest first so "sept" is tried before "sep"
+ */
+function toAlternation(words: string[]): string {
+  return [...words]
+    .sort((a, b) => b.length - a.length)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|')
+}
+
+/**
+ * The regular expression source of locale phrases: spaces match any whitespace,
+ * and `{name}` placeholders are replaced by `slots`. An empty list never matches.
+ */
+function toPhraseSource(phrases: string[], slots: Record<string, string> = {}): string {
+  if (phrases.length === 0) return '(?!)'
+  return phrases
+    .map((phrase) =>
+      phrase
+        .replace(/ /g, '\\s+')
+        .replace(/\{(\w+)\}/g, (placeholder, name: string) => slots[name] ?? placeholder)
+    )
+    .join('|')
+}
+
+/**
+ * Compile locale phrases into one sticky, case-insensitive whole-word pattern
+ */
+function compilePhrases(phrases: string[], slots: Record<string, string> = {}): RegExp {
+  return new RegExp(`${WORD_START}(?:${toPhraseSource(phrases, slots)})${WORD_END}`, 'iuy')
+}
+
+/**
+ * The compiled patterns of a locale pack. Templates become one pattern each since
+ * they reuse group names.
+ */
+function getLocalePatterns(locale: LocalePack): LocalePatterns {
+  const cached = LOCALE_PATTERNS.get(locale.id)
+  if (cached) return cached
+
+  const dayNames = `(?<day>${toAlternation(Object.keys(locale.days))})`
+  const slots = {
+    day: '(?<day>\\d{1,2})',
+    month: `(?<month>${toAlternation(Object.keys(locale.months))})`,
+    year: '(?<year>\\d{4})',
+    amount: '(?<amount>\\d+)',
+    unit: `(?<unit>${Object.values(locale.units).flat().join('|')})`,
+    hour: '(?<hour>[01]?\\d|2[0-3])',
+    minute: '(?<minute>[0-5]\\d)',
   }
+  const each = (templates: string[], templateSlots = slots) =>
+    templates.map((template) => compilePhrases([template], templateSlots))
+  const at = `(?:${toPhraseSource(locale.at)})`
+  const timeWords = Object.keys(locale.timeWords).sort((a, b) => b.length - a.length)
 
-  // Next Monday, Tuesday, etc.
-  const nextDayMatch = lowerInput.match(/\bnext\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tue|wed|thu|fri|sat|sun)\b/i)
-  if (nextDayMatch) {
-    const dayName = nextDayMatch[1].toLowerCase()
-    const targetDay = DAYS_OF_WEEK[dayName as keyof typeof DAYS_OF_WEEK]
-    const today = new Date()
-    const currentDay = today.getDay()
-    let daysUntil = (targetDay - currentDay + 7) % 7
-    if (daysUntil === 0) daysUntil = 7
-    const date = new Date(today)
-    date.setDate(date.getDate() + daysUntil)
-    date.setHours(0, 0, 0, 0)
-    return date
+  const patterns: LocalePatterns = {
+    yesterday: compilePhrases(locale.yesterday),
+    today: compilePhrases(locale.today),
+    tomorrow: compilePhrases(locale.tomorrow),
+    dayAfterTomorrow: compilePhrases(locale.dayAfterTomorrow),
+    nextDay: each(locale.nextDay, { ...slots, day: dayNames }),
+    lastDay: each(locale.lastDay, { ...slots, day: dayNames }),
+    day: compilePhrases([dayNames]),
+    monthDay: each(locale.monthDay),
+    dayOfMonth: each(locale.dayOfMonth),
+    relative: each(locale.relative),
+    ago: each(locale.ago),
+    units: Object.entries(locale.units).map(([unit, words]) => [
+      unit as keyof LocalePack['units'],
+      new RegExp(`^(?:${words.join('|')})$`, 'iu'),
+    ]),
+    clock: locale.clock.map((template) => compilePhrases([`(?:${at} )?${template}`], slots)),
+    // HH:MM with an optional AM/PM, H AM/PM, and a bare hour after "at"
+    standardTime: new RegExp(
+      `${WORD_START}(?:${at}\\s+)?(0?[0-9]|1[0-9]|2[0-3]):([0-5][0-9])(?:\\s*(am|pm))?${WORD_END}`,
+      'iuy'
+    ),
+    hourTime: new RegExp(`${WORD_START}(?:${at}\\s+)?(0?[1-9]|1[0-2])\\s*(am|pm)${WORD_END}`, 'iuy'),
+    bareHour: new RegExp(`${WORD_START}${at}\\s+(0?[1-9]|1[0-2])${WORD_END}(?![:.]\\d)`, 'uy'),
+    timeWord: compilePhrases(timeWords),
+    timeWordValues: Object.entries(locale.timeWords).map(([phrase, time]) => [
+      new RegExp(`^(?:${toPhraseSource([phrase])})$`, 'iu'),
+      time,
+    ]),
+    deadline: new RegExp(
+      `${WORD_START}(?:(?<before>${toPhraseSource(locale.before)})|${toPhraseSource(locale.deadline)}):?\\s+`,
+      'iuy'
+    ),
+    scheduled: new RegExp(`${WORD_START}(?:${toPhraseSource(locale.scheduled)})\\s+`, 'iuy'),
+    // At the very start only: "done:", "✅"
+    done: new RegExp(`(?<=^\\s*)(?:(?:${toPhraseSource(locale.done)})\\s*:|[✓✔✅]\\uFE0F?)`, 'iu'),
   }
+  LOCALE_PATTERNS.set(locale.id, patterns)
+  return patterns
+}
 
-  // Day of week (today or next occurrence)
-  const dayMatch = lowerInput.match(/\b(monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tue|wed|thu|fri|sat|sun)\b/i)
-  if (dayMatch) {
-    const dayName = dayMatch[1].toLowerCase()
-    const targetDay = DAYS_OF_WEEK[dayName as keyof typeof DAYS_OF_WEEK]
-    const today = new Date()
-    const currentDay = today.getDay()
-    let daysUntil = (targetDay - currentDay + 7) % 7
-    if (daysUntil < 0) daysUntil += 7
-    const date = new Date(today)
-    date.setDate(date.getDate() + daysUntil)
-    date.setHours(0, 0, 0, 0)
-    return date
+/**
+ * Format the local time of a date as HH:MM
+ */
+function toTimeKey(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+/**
+ * Format a date as a local YYYY-MM-DD key
+ */
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Local midnight of the current calendar day in `options.timeZone` (the runtime's
+ * zone when unset), as of `options.now`
+ */
+export function getToday(options: DateOptions = {}): Date {
+  const now = options.now ?? new Date()
+  if (!options.timeZone) {
+    const today = new Date(now)
+    today.setHours(0, 0, 0, 0)
+    return today
   }
 
-  // Month and day: "January 15" or "Jan 15"
-  const monthDayMatch = lowerInput.match(/\b(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\s+(\d{1,2})\b/i)
-  if (monthDayMatch) {
-    const monthName = monthDayMatch[1].toLowerCase()
-    const day = parseInt(monthDayMatch[2], 10)
-    const month = MONTHS[monthName as keyof typeof MONTHS]
-    const year = new Date().getFullYear()
-    const date = new Date(year, month, day)
-    // If the date is in the past, use next year
-    if (date < new Date()) {
-      date.setFullYear(year + 1)
-    }
-    date.setHours(0, 0, 0, 0)
-    return date
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: options.timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(now)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value)
+  return new Date(part('year'), part('month') - 1, part('day'))
+}
+
+/**
+ * The HH:MM wall-clock time of `options.now` in `options.timeZone` (the runtime's
+ * zone when unset)
+ */
+function getClockTime(options: DateOptions = {}): string {
+  const now = options.now ?? new Date()
+  if (!options.timeZone) return toTimeKey(now)
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: options.timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    String(Number(parts.find((p) => p.type === type)?.value)).padStart(2, '0')
+  return `${part('hour')}:${part('minute')}`
+}
+
+/**
+ * Shift a local midnight date by whole days (stays on midnight across DST changes)
+ */
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+/**
+ * Whether a local midnight date is a working day: in the work week and not a day off
+ */
+function isWorkday(date: Date, options: DateOptions = {}): boolean {
+  const workWeek = options.workWeek?.length ? options.workWeek : DEFAULT_WORK_WEEK
+  return workWeek.includes(date.getDay()) && !getDayOff(date, options.holidays ?? DEFAULT_HOLIDAYS)
+}
+
+/**
+ * Shift a local midnight date by whole working days, backwards when `amount` is negative
+ */
+function addWorkdays(date: Date, amount: number, options: DateOptions = {}): Date {
+  let result = date
+  for (let remaining = Math.abs(amount); remaining > 0; ) {
+    result = addDays(result, Math.sign(amount))
+    if (isWorkday(result, options)) remaining--
+  }
+  return result
+}
+
+/**
+ * A pattern matching any name or alias of the given holidays, longest first so
+ * "christmas eve" wins over "christmas"; apostrophes are optional ("new years")
+ */
+function getHolidayPattern(holidays: HolidayRule[]): RegExp {
+  const cached = HOLIDAY_PATTERNS.get(holidays)
+  if (cached) return cached
+
+  const names = holidays
+    .flatMap((rule) => [rule.name, ...(rule.aliases ?? [])])
+    .map((name) => name.toLowerCase())
+    .sort((a, b) => b.length - a.length)
+    .map((name) =>
+      name
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/['’]/g, "['’]?")
+        .replace(/\s+/g, '\\s+')
+    )
+  const pattern = new RegExp(`\\b(?:${names.join('|')})\\b`, 'y')
+  HOLIDAY_PATTERNS.set(holidays, pattern)
+  return pattern
+}
+
+/**
+ * The holiday a name or alias refers to, ignoring case, apostrophes and spacing
+ */
+function findHolidayByName(holidays: HolidayRule[], text: string): HolidayRule | undefined {
+  const normalize = (name: string) => name.toLowerCase().replace(/['’]/g, '').replace(/\s+/g, ' ')
+  const target = normalize(text)
+  return holidays.find((rule) =>
+    [rule.name, ...(rule.aliases ?? [])].some((name) => normalize(name) === target)
+  )
+}
+
+/**
+ * Build a local midnight date, or null when the parts do not form a real date
+ * (e.g. February 30)
+ */
+function createValidDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day)
+  date.setHours(0, 0, 0, 0)
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null
   }
+  return date
+}
+
+// The date phrases of the grammar, most specific first: a task keeps the date of the
+// earliest rule in this list, so "today" beats the "friday" of "friday standup today"
+const DATE_RULES: DateRule[] = [
+  // Working days from another date: "2 weekdays after the 10th", "3 business days before dec 1"
+  (context, at) => {
+    const match = matchAt(WORKDAYS_FROM_DATE, context.lower, at)
+    const base = match && readDate(context, at + match[0].length)
+    if (!match || !base) return null
+    const amount = parseInt(match[1], 10) * (match[2] === 'before' ? -1 : 1)
+    return { start: at, end: base.end, value: addWorkdays(base.value, amount, context.options) }
+  },
+
+  // Working days from today: "in 3 business days", "5 workdays from now"
+  ({ lower, options, today }, at) => {
+    const match = matchAt(WORKDAYS_FROM_TODAY, lower, at)
+    return match && toSpan(match, addWorkdays(today, parseInt(match[1] ?? match[2], 10), options))
+  },
+
+  // Next working day: "next workday", "next business day"
+  ({ lower, options, today }, at) => {
+    const match = matchAt(NEXT_WORKDAY, lower, at)
+    return match && toSpan(match, addWorkdays(today, 1, options))
+  },
+
+  // ISO date: 2026-11-02
+  ({ lower }, at) => {
+    const match = matchAt(ISO_DATE, lower, at)
+    const date =
+      match && createValidDate(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10))
+    return match && date ? toSpan(match, date) : null
+  },
+
+  // Yesterday
+  ({ lower, patterns, today }, at) => {
+    const match = matchAt(patterns.yesterday, lower, at)
+    return match && toSpan(match, addDays(today, -1))
+  },
+
+  // Day after tomorrow (before "tomorrow" so the whole phrase is taken)
+  ({ lower, patterns, today }, at) => {
+    const match = matchAt(patterns.dayAfterTomorrow, lower, at)
+    return match && toSpan(match, addDays(today, 2))
+  },
+
+  // Today
+  ({ lower, patterns, today }, at) => {
+    const match = matchAt(patterns.today, lower, at)
+    return match && toSpan(match, today)
+  },
+
+  // Tomorrow
+  ({ lower, patterns, today }, at) => {
+    const match = matchAt(patterns.tomorrow, lower, at)
+    return match && toSpan(match, addDays(today, 1))
+  },
+
+  // This / next weekend: the Saturday that starts it, or today when already on Sunday
+  ({ lower, today }, at) => {
+    const match = matchAt(WEEKEND, lower, at)
+    if (!match) return null
+    const currentDay = today.getDay()
+    let daysUntil = currentDay === 0 ? 0 : 6 - currentDay
+    if (match[1] === 'next') daysUntil += currentDay === 0 ? 6 : 7
+    return toSpan(match, addDays(today, daysUntil))
+  },
+
+  // Next week: the first day of the following week
+  ({ lower, options, today }, at) => {
+    const match = matchAt(NEXT_WEEK, lower, at)
+    const weekStartsOn = options.weekStartsOn ?? 1
+    return match && toSpan(match, addDays(today, (weekStartsOn - today.getDay() + 7) % 7 || 7))
+  },
+
+  // End of week: the coming Friday (today on a Friday)
+  ({ lower, today }, at) => {
+    const match = matchAt(END_OF_WEEK, lower, at)
+    return match && toSpan(match, addDays(today, (5 - today.getDay() + 7) % 7))
+  },
+
+  // End of month: the last day of the current month
+  ({ lower, today }, at) => {
+    const match = matchAt(END_OF_MONTH, lower, at)
+    return match && toSpan(match, new Date(today.getFullYear(), today.getMonth() + 1, 0))
+  },
+
+  // Next quarter: the first day of the following quarter
+  ({ lower, today }, at) => {
+    const match = matchAt(NEXT_QUARTER, lower, at)
+    const date = new Date(today.getFullYear(), Math.floor(today.getMonth() / 3) * 3 + 3, 1)
+    return match && toSpan(match, date)
+  },
+
+  // Last Monday, Tuesday, etc.: the latest one before today
+  ({ lower, locale, patterns, today }, at) => {
+    const match = findAt(lower, at, patterns.lastDay)
+    if (!match?.groups) return null
+    const targetDay = locale.days[match.groups.day.toLowerCase()]
+    return toSpan(match, addDays(today, -((today.getDay() - targetDay + 7) % 7 || 7)))
+  },
+
+  // Next Monday, Tuesday, etc.
+  ({ lower, locale, patterns, today }, at) => {
+    const match = findAt(lower, at, patterns.nextDay)
+    if (!match?.groups) return null
+    const targetDay = locale.days[match.groups.day.toLowerCase()]
+    return toSpan(match, addDays(today, (targetDay - today.getDay() + 7) % 7 || 7))
+  },
+
+  // Day of week (today or next occurrence, the last one for work already done)
+  ({ scan, lower, options, locale, patterns, today }, at) => {
+    const match = matchAt(patterns.day, lower, at)
+    if (!match?.groups) return null
+    const dayName = match.groups.day.toLowerCase()
+    const targetDay = locale.days[dayName]
+    const currentDay = today.getDay()
+    const offset = options.completed
+      ? -((currentDay - targetDay + 7) % 7)
+      : (targetDay - currentDay + 7) % 7
+    const span = toSpan(match, addDays(today, offset))
+    // "sun", "wed" and "sat" are everyday words too ("sun screen", "wed dress shopping")
+    if (locale.ambiguousDays.includes(dayName)) {
+      return { ...span, confidence: 0.4, alternatives: [keepAsText(scan, span)] }
+    }
+    return span
+  },
+
+  // Month and day: "January 15", "Jan 15", "March 3rd, 2027"
+  ({ scan, lower, options, locale, patterns, today }, at) => {
+    const match = findAt(lower, at, patterns.monthDay)
+    if (!match?.groups) return null
+    const monthName = match.groups.month.toLowerCase()
+    const day = parseInt(match.groups.day, 10)
+    const month = locale.months[monthName]
 
-  // Relative dates: "in 2 days", "in 1 week", etc.
-  const relativeMatch = lowerInput.match(/\bin\s+(\d+)\s+(day|days|week|weeks|month|months|hour|hours|minute|minutes)\b/i)
-  if (relativeMatch) {
-    const amount = parseInt(relativeMatch[1], 10)
-    const unit = relativeMatch[2].toLowerCase()
-    const date = new Date()
+    if (match.groups.year) {
+      const date = createValidDate(parseInt(match.groups.year, 10), month, day)
+      return date && toSpan(match, date)
+    }
+
+    // Without a year, a date that has already passed means next year (and one still
+    // to come means last year for work already done)
+    const year = today.getFullYear()
+    const date = createValidDate(year, month, day)
+    if (!date) return null
+    if (!options.completed && date < today) date.setFullYear(year + 1)
+    if (options.completed && date > today) date.setFullYear(year - 1)
+    const span = toSpan(match, date)
+    // "may 5" can also be the verb followed by a number
+    if (locale.ambiguousMonths.includes(monthName)) {
+      return { ...span, confidence: 0.6, alternatives: [keepAsText(scan, span)] }
+    }
+    return span
+  },
+
+  // Day of the month: "the 15th", the next time that day comes around (the last time
+  // for work already done)
+  ({ lower, options, patterns, today }, at) => {
+    const match = findAt(lower, at, patterns.dayOfMonth)
+    if (!match?.groups) return null
+    const day = parseInt(match.groups.day, 10)
+    const step = options.completed ? -1 : 1
+    // Months without that day (the 31st in April) are skipped
+    for (let offset = 0; Math.abs(offset) < 12 && day >= 1 && day <= 31; offset += step) {
+      const date = createValidDate(today.getFullYear(), today.getMonth() + offset, day)
+      if (date && (options.completed ? date <= today : date >= today)) return toSpan(match, date)
+    }
+    return null
+  },
+
+  // Holidays by name: "christmas", "thanksgiving", "new year's", the next time they come around
+  ({ scan, lower, options, today }, at) => {
+    const holidays = options.holidays ?? DEFAULT_HOLIDAYS
+    const match = holidays.length > 0 ? matchAt(getHolidayPattern(holidays), lower, at) : null
+    const holiday = match && findHolidayByName(holidays, match[0])
+    const date = holiday && getNextHolidayDate(holiday, today)
+    if (!match || !date) return null
+    // Holiday names also appear in titles ("buy christmas presents")
+    const span = toSpan(match, date)
+    return { ...span, confidence: 0.6, alternatives: [keepAsText(scan, span)] }
+  },
 
-    if (unit.startsWith('day')) {
-      date.setDate(date.getDate() + amount)
-    } else if (unit.startsWith('week')) {
-      date.setDate(date.getDate() + amount * 7)
-    } else if (unit.startsWith('month')) {
+  // Relative dates: "in 2 days", "in 1 week", "3 days ago", "2 hours ago"
+  ({ lower, options, patterns, today }, at) => {
+    const relativeMatch = findAt(lower, at, patterns.relative)
+    const agoMatch = relativeMatch ? null : findAt(lower, at, patterns.ago)
+    const match = relativeMatch ?? agoMatch
+    if (!match?.groups) return null
+    // "3 days ago" counts back from today
+    const amount = (agoMatch ? -1 : 1) * parseInt(match.groups.amount, 10)
+    const unitText = match.groups.unit
+    const unit = patterns.units.find(([, pattern]) => pattern.test(unitText))?.[0]
+
+    if (unit === 'day') return toSpan(match, addDays(today, amount))
+    if (unit === 'week') return toSpan(match, addDays(today, amount * 7))
+    if (unit === 'month') {
+      const date = new Date(today)
       date.setMonth(date.getMonth() + amount)
-    } else if (unit.startsWith('hour')) {
-      date.setHours(date.getHours() + amount)
-    } else if (unit.startsWith('minute')) {
-      date.setMinutes(date.getMinutes() + amount)
+      return toSpan(match, date)
     }
 
-    date.setHours(0, 0, 0, 0)
-    return date
-  }
+    // Hours and minutes fix both the day and the time the clock shows then in the time zone
+    const minutes = unit === 'hour' ? amount * 60 : amount
+    const now = options.now ?? new Date()
+    const then = { ...options, now: new Date(now.getTime() + minutes * 60 * 1000) }
+    return { ...toSpan(match, getToday(then)), time: getClockTime(then) }
+  },
 
-  // Numeric date: MM/DD/YYYY or MM-DD-YYYY
-  const numericMatch = lowerInput.match(/\b(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})\b/)
-  if (numericMatch) {
-    const month = parseInt(numericMatch[1], 10) - 1
-    const day = parseInt(numericMatch[2], 10)
-    let year = parseInt(numericMatch[3], 10)
+  // Numeric date: MM/DD/YYYY or DD/MM/YYYY depending on the date order preference
+  ({ lower, options, locale }, at) => {
+    const match = matchAt(NUMERIC_DATE, lower, at)
+    if (!match) return null
+    const first = parseInt(match[1], 10)
+    const second = parseInt(match[2], 10)
+    const dateOrder = options.dateOrder ?? locale.dateOrder
+    const [month, day] = dateOrder === 'DMY' ? [second, first] : [first, second]
+    let year = parseInt(match[3], 10)
     if (year < 100) {
       year += year < 50 ? 2000 : 1900
     }
-    const date = new Date(year, month, day)
-    date.setHours(0, 0, 0, 0)
-    return date
-  }
+    const date = createValidDate(year, month - 1, day)
+    return date && toSpan(match, date)
+  },
+]
 
+/**
+ * Read a date starting exactly at `at`: the first of DATE_RULES that reads one, ranked
+ * by its place in the list. Times of day are left to the time rules so "por la mañana"
+ * (in the morning) is not read as "mañana" (tomorrow).
+ */
+function readDate(context: GrammarContext, at: number): DateMatch | null {
+  if (matchAt(context.patterns.timeWord, context.lower, at)) return null
+  for (let rank = 0; rank < DATE_RULES.length; rank++) {
+    const match = DATE_RULES[rank](context, at)
+    if (match) return { ...match, rank }
+  }
   return null
 }
 
 /**
- * Parse time from user input
+ * Read a deadline: a date introduced by the locale's deadline words ("by", "due",
+ * "before", "deadline"). "before friday" means the work has to be finished by thursday.
  */
-function parseTime(input: string): string | null {
-  const lowerInput = input.toLowerCase()
+function readDeadline(context: GrammarContext, at: number): DateMatch | null {
+  const keyword = matchAt(context.patterns.deadline, context.scan, at)
+  // "3 business days before dec 1" is a date of its own
+  if (!keyword || WORKDAY_COUNT_BEFORE.test(context.scan.slice(0, at))) return null
+
+  const dateMatch = readDate(context, at + keyword[0].length)
+  if (!dateMatch) return null
 
-  // HH:MM AM/PM
-  const standardMatch = lowerInput.match(/\b(0?[0-9]|1[0-9]|2[0-3]):([0-5][0-9])\s*(am|pm)?\b/i)
+  const date = new Date(dateMatch.value)
+  if (keyword.groups?.before) date.setDate(date.getDate() - 1)
+  return { start: at, end: dateMatch.end, value: date, time: dateMatch.time }
+}
+
+/**
+ * Read a scheduled date, taking a leading keyword of the locale ("on" / "start" /
+ * "starting") into its span
+ */
+function readScheduledDate(context: GrammarContext, at: number): DateMatch | null {
+  // A keyword in front ("on sat") settles any doubt about the date
+  const keyword = matchAt(context.patterns.scheduled, context.scan, at)
+  const dateMatch = keyword && readDate(context, at + keyword[0].length)
+  if (!dateMatch) return readDate(context, at)
+  const { end, value, time, rank } = dateMatch
+  return { start: at, end, value, time, rank }
+}
+
+/**
+ * Convert an hour in the given half of the day to 0-23; without a period the hour
+ * is taken as written
+ */
+function toHours24(hour: number, period: string | undefined): number {
+  if (period === 'am') return hour % 12
+  if (period === 'pm') return (hour % 12) + 12
+  return hour
+}
+
+/**
+ * Read a time range: "2-3pm", "9am to 11am", "from 9 to 11", "2:30-4pm".
+ * A bare "9-11" is only a range with "from" in front (otherwise it could be
+ * anything, "chapters 9-11"). Missing am/pm is borrowed from the other end.
+ */
+function readTimeRange(text: string, at: number): TimeMatch | null {
+  const match = matchAt(TIME_RANGE, text, at)
+  if (!match) return null
+  const [, prefix, startText, startMinutes = '00', startPeriod, endText, endMinutes = '00', endPeriod] =
+    match
+  if (prefix !== 'from' && !startPeriod && !endPeriod && !match[3] && !match[6]) return null
+
+  const startHour = parseInt(startText, 10)
+  const endHour = parseInt(endText, 10)
+  const maxHour = (period: string | undefined) => (period ? 12 : 23)
+  if (startHour > maxHour(startPeriod) || endHour > maxHour(endPeriod)) return null
+  if ((startPeriod && startHour === 0) || (endPeriod && endHour === 0)) return null
+
+  const otherPeriod = (period: string) => (period === 'am' ? 'pm' : 'am')
+  let start: number
+  let end: number
+  if (startPeriod || !endPeriod) {
+    // Without any period, 7-11 read as morning and 12-6 as afternoon, as for "at 5"
+    const period =
+      startPeriod ?? (startHour > 12 ? undefined : startHour >= 7 && startHour <= 11 ? 'am' : 'pm')
+    start = toHours24(startHour, period)
+    end = toHours24(endHour, endPeriod ?? period)
+    if (!endPeriod && period && end <= start) end = toHours24(endHour, otherPeriod(period))
+  } else {
+    end = toHours24(endHour, endPeriod)
+    start = toHours24(startHour, endPeriod)
+    if (start > end) start = toHours24(startHour, otherPeriod(endPeriod))
+  }
+
+  const format = (hours: number, minutes: string) => `${String(hours).padStart(2, '0')}:${minutes}`
+  return { ...toSpan(match, format(start, startMinutes)), endTime: format(end, endMinutes) }
+}
+
+/**
+ * Read a time starting exactly at `at`, with the "at" word and times of day of a locale
+ * (the task's by default), ranked by how exact it is
+ */
+function readTime(
+  context: GrammarContext,
+  at: number,
+  patterns: LocalePatterns = context.patterns
+): TimeMatch | null {
+  const { lower } = context
+
+  // Ranges first so "2-3pm" is not read as just 3pm
+  const rangeMatch = readTimeRange(lower, at)
+  if (rangeMatch) return { ...rangeMatch, rank: 0 }
+
+  // 24-hour clock words of the locale: "15 Uhr", "à 9h30"
+  const clockMatch = findAt(lower, at, patterns.clock)
+  if (clockMatch?.groups) {
+    const { hour, minute = '00' } = clockMatch.groups
+    return { ...toSpan(clockMatch, `${hour.padStart(2, '0')}:${minute}`), rank: 1 }
+  }
+
+  // HH:MM AM/PM (optionally preceded by "at")
+  const standardMatch = matchAt(patterns.standardTime, lower, at)
   if (standardMatch) {
     let hours = parseInt(standardMatch[1], 10)
     const minutes = standardMatch[2]
@@ -202,119 +1116,832 @@ function parseTime(input: string): string | null {
       if (period.toLowerCase() === 'am' && hours === 12) hours = 0
     }
 
-    return `${String(hours).padStart(2, '0')}:${minutes}`
+    return { ...toSpan(standardMatch, `${String(hours).padStart(2, '0')}:${minutes}`), rank: 2 }
+  }
+
+  // H AM/PM: "2pm", "at 11 am"
+  const hourMatch = matchAt(patterns.hourTime, lower, at)
+  if (hourMatch) {
+    let hours = parseInt(hourMatch[1], 10)
+    const period = hourMatch[2].toLowerCase()
+    if (period === 'pm' && hours !== 12) hours += 12
+    if (period === 'am' && hours === 12) hours = 0
+    return { ...toSpan(hourMatch, `${String(hours).padStart(2, '0')}:00`), rank: 3 }
+  }
+
+  // Bare hour after "at": "call at 5" is a guess, afternoon for 1-6 and morning for 7-11
+  const bareHourMatch = matchAt(patterns.bareHour, lower, at)
+  if (bareHourMatch) {
+    const hour = parseInt(bareHourMatch[1], 10)
+    const morning = `${String(hour % 12).padStart(2, '0')}:00`
+    const afternoon = `${String((hour % 12) + 12).padStart(2, '0')}:00`
+    const [time, otherTime] = hour >= 7 && hour <= 11 ? [morning, afternoon] : [afternoon, morning]
+    const span = toSpan(bareHourMatch, time)
+    return {
+      ...span,
+      rank: 4,
+      confidence: 0.5,
+      alternatives: [
+        { label: formatTimeLabel(otherTime), value: otherTime },
+        keepAsText(context.scan, span),
+      ],
+    }
   }
 
-  // Time words
-  if (/\bmorning\b/i.test(lowerInput)) return '09:00'
-  if (/\bafternoon\b/i.test(lowerInput)) return '14:00'
-  if (/\bevening\b/i.test(lowerInput)) return '18:00'
-  if (/\bnight\b/i.test(lowerInput)) return '21:00'
-  if (/\btonight\b/i.test(lowerInput)) return '20:00'
+  // Time words: "morning", "tonight"
+  const wordMatch = matchAt(patterns.timeWord, lower, at)
+  if (wordMatch) {
+    const time = patterns.timeWordValues.find(([pattern]) => pattern.test(wordMatch[0]))?.[1]
+    if (time) return { ...toSpan(wordMatch, time), rank: 5 }
+  }
 
   return null
 }
 
 /**
- * Extract tags from input (hashtags and tag: syntax)
+ * Read a target list reference: +Groceries, @Work, +"Side project", @"Side project"
  */
-function extractTags(input: string): string[] {
-  const tags: Set<string> = new Set()
+function readListReference({ scan }: GrammarContext, at: number): SpanMatch<string> | null {
+  const match = matchAt(LIST_REFERENCE, scan, at)
+  return match && toSpan(match, (match[1] ?? match[2]).trim())
+}
 
-  // Hashtag syntax: #tagname
-  const hashtagMatches = input.match(/#([a-zA-Z0-9_-]+)/g)
-  if (hashtagMatches) {
-    hashtagMatches.forEach((match) => {
-      const tag = match.substring(1).toLowerCase()
-      if (tag) tags.add(tag)
-    })
+/**
+ * Read an "@name" mention of a registered person ("@alice") or context ("@home"),
+ * ignoring case. People win when a name is registered as both; other names are left
+ * to the list rule.
+ */
+function readMention({ scan, options }: GrammarContext, at: number): SpanMatch<Mention> | null {
+  const match = matchAt(MENTION, scan, at)
+  if (!match) return null
+
+  const registry = options.mentions ?? { people: [], contexts: DEFAULT_CONTEXTS }
+  const find = (names: string[]) =>
+    names.find((known) => known.toLowerCase() === match[1].toLowerCase())
+
+  const person = find(registry.people)
+  if (person) return toSpan(match, { kind: 'assignee', name: person })
+  const context = find(registry.contexts)
+  if (context) return toSpan(match, { kind: 'context', name: context.toLowerCase() })
+  return null
+}
+
+/**
+ * Read a priority marker: "!high", "!!!", "p1", "urgent"
+ */
+function readPriority({ scan }: GrammarContext, at: number): SpanMatch<TaskPriority> | null {
+  // Named priority: "!high", "!med", "!urgent", "!l"
+  const namedMatch = matchAt(NAMED_PRIORITY, scan, at)
+  if (namedMatch) {
+    return { ...toSpan(namedMatch, PRIORITY_WORDS[namedMatch[1].toLowerCase()]), rank: 0 }
+  }
+
+  // Bangs on their own: "!!!" high, "!!" medium, "!" low
+  const bangMatch = matchAt(BANG_PRIORITY, scan, at)
+  if (bangMatch) {
+    const levels: TaskPriority[] = ['low', 'medium', 'high']
+    return { ...toSpan(bangMatch, levels[bangMatch[1].length - 1]), rank: 1 }
+  }
+
+  // Todoist-style levels and keywords: "p1", "urgent"
+  const keywordMatch = matchAt(PRIORITY_KEYWORD, scan, at)
+  if (keywordMatch) {
+    const word = keywordMatch[1].toLowerCase()
+    const span = { ...toSpan(keywordMatch, PRIORITY_WORDS[word]), rank: 2 }
+    // "urgent" is an everyday word too ("book urgent care appointment"), so it is only
+    // certain at the end of the input
+    if (word === 'urgent' && scan.slice(span.end).trim()) {
+      return { ...span, confidence: 0.6, alternatives: [keepAsText(scan, span)] }
+    }
+    return span
+  }
+
+  return null
+}
+
+/**
+ * Read a duration estimate: "~2h", "for 15m", "90 minutes", "1h 30m".
+ * "in 2 hours" is a relative date, so amounts right after "in" are skipped.
+ */
+function readEstimate({ scan }: GrammarContext, at: number): SpanMatch<number> | null {
+  const match = matchAt(ESTIMATE, scan, at)
+  if (!match) return null
+
+  const hours = match[1] ? parseFloat(match[1]) : 0
+  const minutes = parseInt(match[2] ?? match[3] ?? '0', 10)
+  const total = Math.round(hours * 60 + minutes)
+  return total > 0 ? toSpan(match, total) : null
+}
+
+/**
+ * Read a reminder clause: "remind me 1h before", "remind me 30 minutes early",
+ * "remind me at 4pm". A bare "remind me" is read as 0 minutes before the start.
+ */
+function readReminder(context: GrammarContext, at: number): SpanMatch<Reminder> | null {
+  const keyword = matchAt(REMIND_ME, context.scan, at)
+  if (!keyword) return null
+  const offset = at + keyword[0].length
+
+  const beforeMatch = matchAt(REMINDER_BEFORE, context.scan, offset)
+  if (beforeMatch) {
+    const amount = parseInt(beforeMatch[1], 10)
+    const unit = beforeMatch[2].toLowerCase()
+    const minutesBefore = unit.startsWith('d') ? amount * 1440 : unit.startsWith('h') ? amount * 60 : amount
+    return { start: at, end: offset + beforeMatch[0].length, value: { minutesBefore } }
+  }
+
+  // Reminder clauses are English, so their times are read with English words
+  const atMatch = matchAt(REMINDER_AT, context.scan, offset)
+  const timeMatch =
+    atMatch &&
+    readTime(context, offset + atMatch[0].length, getLocalePatterns(getLocalePack()))
+  if (timeMatch) return { start: at, end: timeMatch.end, value: { time: timeMatch.value } }
+
+  return { start: at, end: offset, value: { minutesBefore: 0 } }
+}
+
+/**
+ * Split a day list ("mon, wed and fri") into sorted Date#getDay() numbers
+ */
+function parseDayList(list: string): number[] {
+  const days = list
+    .toLowerCase()
+    .split(/\s*(?:,|and|&)\s*/)
+    .map((name) => DAYS_OF_WEEK[name.trim()])
+    .filter((day) => day !== undefined)
+  return Array.from(new Set(days)).sort((a, b) => a - b)
+}
+
+/**
+ * Read the main recurrence phrase ("every monday", "weekdays", "every 2 weeks")
+ */
+function readRecurrencePhrase(scan: string, at: number): SpanMatch<RecurrenceRule> | null {
+  // Weekdays / weekends: "weekdays", "every weekday", "every weekend"
+  const workweekMatch = matchAt(RECURRENCE_WORKWEEK, scan, at)
+  if (workweekMatch) {
+    const isWeekend = (workweekMatch[1] || workweekMatch[2]).toLowerCase().startsWith('weekend')
+    const weekdays = isWeekend ? [0, 6] : [1, 2, 3, 4, 5]
+    return { ...toSpan(workweekMatch, { frequency: 'weekly', interval: 1, weekdays }), rank: 0 }
+  }
+
+  // Specific days: "every monday", "every other tue and thu"
+  const daysMatch = matchAt(RECURRENCE_DAYS, scan, at)
+  if (daysMatch) {
+    const rule: RecurrenceRule = {
+      frequency: 'weekly',
+      interval: daysMatch[2] ? 2 : 1,
+      weekdays: parseDayList(daysMatch[3]),
+    }
+    return { ...toSpan(daysMatch, rule), rank: 1 }
+  }
+
+  // Units: "daily", "every 2 weeks", "every other month", "every month on the 1st"
+  const unitMatch = matchAt(RECURRENCE_UNIT, scan, at)
+  if (unitMatch) {
+    const modifier = unitMatch[1]?.trim().toLowerCase()
+    const frequency = RECURRENCE_UNITS[(unitMatch[2] || unitMatch[3]).toLowerCase()]
+    const rule: RecurrenceRule = {
+      frequency,
+      interval: !modifier ? 1 : modifier === 'other' ? 2 : parseInt(modifier, 10),
+    }
+    if (unitMatch[4] && frequency === 'monthly') rule.dayOfMonth = parseInt(unitMatch[4], 10)
+    if (unitMatch[5] && frequency === 'weekly') rule.weekdays = parseDayList(unitMatch[5])
+    return { ...toSpan(unitMatch, rule), rank: 2 }
   }
 
+  // Day of month: "every 15th"
+  const dayOfMonthMatch = matchAt(RECURRENCE_DAY_OF_MONTH, scan, at)
+  if (dayOfMonthMatch) {
+    const dayOfMonth = parseInt(dayOfMonthMatch[1], 10)
+    return { ...toSpan(dayOfMonthMatch, { frequency: 'monthly', interval: 1, dayOfMonth }), rank: 3 }
+  }
+
+  return null
+}
+
+/**
+ * Read a recurrence expression, including an optional end clause
+ * ("until march 1", "for 5 times") directly after the phrase
+ */
+function readRecurrence(context: GrammarContext, at: number): SpanMatch<RecurrenceRule> | null {
+  const match = readRecurrencePhrase(context.scan, at)
+  if (!match || match.value.interval < 1) return null
+  const { dayOfMonth } = match.value
+  if (dayOfMonth !== undefined && (dayOfMonth < 1 || dayOfMonth > 31)) return null
+
+  const untilMatch = matchAt(RECURRENCE_UNTIL, context.scan, match.end)
+  const untilDate = untilMatch && readDate(context, match.end + untilMatch[0].length)
+  if (untilDate) {
+    return { ...match, end: untilDate.end, value: { ...match.value, until: untilDate.value } }
+  }
+
+  const countMatch = matchAt(RECURRENCE_COUNT, context.scan, match.end)
+  if (countMatch) {
+    return {
+      ...match,
+      end: match.end + countMatch[0].length,
+      value: { ...match.value, count: parseInt(countMatch[1], 10) },
+    }
+  }
+
+  return match
+}
+
+/**
+ * Get the first date on or after `from` that a recurrence rule falls on
+ */
+export function getFirstOccurrence(rule: RecurrenceRule, from: Date = new Date()): Date {
+  const date = new Date(from)
+  date.setHours(0, 0, 0, 0)
+
+  if (rule.weekdays && rule.weekdays.length > 0) {
+    while (!rule.weekdays.includes(date.getDay())) {
+      date.setDate(date.getDate() + 1)
+    }
+    return date
+  }
+
+  const { dayOfMonth } = rule
+  if (dayOfMonth) {
+    const occurrence = (monthOffset: number) => {
+      const year = date.getFullYear()
+      const month = date.getMonth() + monthOffset
+      const daysInMonth = new Date(year, month + 1, 0).getDate()
+      return new Date(year, month, Math.min(dayOfMonth, daysInMonth))
+    }
+    const thisMonth = occurrence(0)
+    return thisMonth >= date ? thisMonth : occurrence(1)
+  }
+
+  return date
+}
+
+/**
+ * Read tags (hashtags and tag: syntax)
+ */
+function readTags({ scan }: GrammarContext, at: number): SpanMatch<string[]> | null {
+  // Hashtag syntax: #tagname
+  const hashtagMatch = matchAt(HASHTAG, scan, at)
+  if (hashtagMatch) return toSpan(hashtagMatch, [hashtagMatch[1].toLowerCase()])
+
   // tag: syntax: tag: tagname1, tagname2
-  const tagMatch = input.match(/tag:\s*([a-zA-Z0-9_\s,]+)/gi)
-  if (tagMatch) {
-    tagMatch.forEach((match) => {
-      const tagPart = match.replace(/tag:/i, '').trim()
-      const tagList = tagPart.split(/[,;]/).map((t) => t.trim().toLowerCase())
-      tagList.forEach((tag) => {
-        if (tag) tags.add(tag)
+  const listMatch = matchAt(TAG_LIST, scan, at)
+  if (!listMatch) return null
+  const tagList = listMatch[1].split(/[,;]/).map((t) => t.trim().toLowerCase())
+  return toSpan(listMatch, tagList.filter(Boolean))
+}
+
+/**
+ * Find the text the user marked as plain: words escaped with a backslash (\#123,
+ * \tomorrow) and quoted phrases ('Tomorrow and Tomorrow', "Q3 plan"). Quoted
+ * ranges keep their quotes; `escapes` holds the offsets of the backslashes to drop
+ * from the title. Quotes right after + or @ belong to list references.
+ */
+function findLiteralText(input: string): { ranges: TextRange[]; escapes: number[] } {
+  const ranges: TextRange[] = []
+  const escapes: number[] = []
+
+  for (const match of input.matchAll(/\\(\S+)/g)) {
+    const start = match.index ?? 0
+    escapes.push(start)
+    ranges.push({ start, end: start + match[0].length })
+  }
+
+  // Escapes are hidden first so \" does not open a quote
+  const scan = maskRanges(input, ranges)
+  const quotePattern = /(?<![\w+@])(?:"[^"]*"|'[^']*'|“[^”]*”|‘[^’]*’)(?!\w)/g
+  for (const match of scan.matchAll(quotePattern)) {
+    ranges.push(toSpan(match, null))
+  }
+
+  return { ranges, escapes }
+}
+
+/**
+ * Read the trigger of a user-defined shortcut, typed as a word of its own
+ * (case-insensitive). Longer triggers are tried first so ";;gro" beats ";;g".
+ */
+function readShortcut({ scan, options }: GrammarContext, at: number): SpanMatch<ShortcutRule> | null {
+  const rules = options.shortcuts ?? []
+  if (rules.length === 0) return null
+
+  let patterns = SHORTCUT_PATTERNS.get(rules)
+  if (!patterns) {
+    patterns = [...rules]
+      .filter((rule) => rule.trigger.trim())
+      .sort((a, b) => b.trigger.length - a.trigger.length)
+      .map((rule) => {
+        const escaped = rule.trigger.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        return [new RegExp(`(?<!\\S)${escaped}(?!\\S)`, 'iy'), rule]
       })
-    })
+    SHORTCUT_PATTERNS.set(rules, patterns)
   }
 
-  return Array.from(tags)
+  for (const [pattern, rule] of patterns) {
+    const match = matchAt(pattern, scan, at)
+    if (match) return toSpan(match, rule)
+  }
+  return null
 }
 
 /**
- * Clean input by removing date, time, and tag information
+ * Find inline subtasks: the text after the first ":" that is followed by a space,
+ * split at single semicolons (";;" starts shortcut triggers like ";;gro"). Only a list
+ * with at least one semicolon counts, so "Re: budget" stays a title. Each span runs
+ * from its separator to the end of its text; blank entries are dropped.
  */
-function cleanInput(input: string, tags: string[]): string {
-  let cleaned = input
+function findSubtasks(input: string): TextRange[] {
+  const colon = input.search(/(?<=\S):(?=\s)/)
+  if (colon === -1) return []
 
-  // Remove hashtags
-  cleaned = cleaned.replace(/#[a-zA-Z0-9_-]+/g, '')
+  const separators = [
+    colon,
+    ...[...input.matchAll(/(?<!;);(?!;)/g)].map((match) => match.index ?? 0),
+  ].filter((index) => index >= colon)
+  if (separators.length < 2) return []
 
-  // Remove tag: syntax
-  cleaned = cleaned.replace(/tag:\s*[a-zA-Z0-9_\s,]+/gi, '')
+  return separators
+    .map((start, i) => ({ start, end: separators[i + 1] ?? input.length }))
+    .map(({ start, end }) => ({ start, end: start + input.slice(start, end).trimEnd().length }))
+    .filter(({ start, end }) => input.slice(start + 1, end).trim())
+}
 
-  // Remove date expressions
-  DATE_PATTERNS.forEach((pattern) => {
-    cleaned = cleaned.replace(pattern, '')
-  })
+/**
+ * Give a subtask the parent's day and tags unless it sets its own. A child with only
+ * a time of day ("call hotel 3pm") is at that time on the parent's day. What a child
+ * sets is read from its tokens, so this can run again after the parent is edited.
+ */
+export function inheritFromParent(child: ParsedTask, parent: ParsedTask): ParsedTask {
+  const kinds = new Set(child.tokens.map((token) => token.kind))
+  const fromShortcut = kinds.has('shortcut')
+  const ownDay =
+    kinds.has('date') ||
+    kinds.has('deadline') ||
+    kinds.has('recurrence') ||
+    (fromShortcut && child.date !== null)
+  const ownTags = kinds.has('tag') || (fromShortcut && child.tags.length > 0)
+  const tags = ownTags ? child.tags : parent.tags
+  if (ownDay) return { ...child, tags }
+
+  const ownTime = kinds.has('time') || (fromShortcut && child.time !== null)
+  const schedule = ownTime
+    ? buildSchedule(parent.date, child.time, child.end && toTimeKey(child.end))
+    : { start: parent.start, end: parent.end, allDay: parent.allDay, time: parent.time }
+  // Work logged as done was finished by the start of the day it now falls on
+  const completedAt =
+    child.completedAt && schedule.start && schedule.start < child.completedAt
+      ? schedule.start
+      : child.completedAt
+
+  return {
+    ...child,
+    date: parent.date,
+    scheduledDate: parent.scheduledDate,
+    deadline: parent.deadline,
+    ...schedule,
+    tags,
+    completedAt,
+  }
+}
+
+/**
+ * The text a shortcut stands for, in the syntax quick add understands:
+ * the expansion as written, or its fields spelled out ("today 17:00 !high")
+ */
+export function getShortcutText(rule: ShortcutRule): string {
+  if (rule.kind === 'expansion') return rule.expansion.trim()
+
+  const { date, time, priority, tags = [], list } = rule.fields
+  return [
+    date,
+    time,
+    priority && `!${priority}`,
+    ...tags.map((tag) => `#${tag.replace(/^#/, '')}`),
+    list && (/\s/.test(list) ? `+"${list}"` : `+${list}`),
+  ]
+    .filter(Boolean)
+    .join(' ')
+}
+
+/**
+ * Build the title from the input by removing every consumed token span and the
+ * single characters at `escapes` (escape backslashes, the ";" of a subtask kept as
+ * text). A span listed in `replacements` leaves that text instead, as a shortcut's
+ * trigger leaves the title words of its expansion.
+ */
+function buildTitle(
+  input: string,
+  tokens: ParsedToken[],
+  escapes: number[] = [],
+  replacements: Map<number, string> = new Map()
+): string {
+  // Tokens leave a space behind so neighbouring words stay apart; backslashes leave nothing
+  const removals = [
+    ...tokens.map(({ start, end }) => ({
+      start,
+      end,
+      gap: replacements.has(start) ? ` ${replacements.get(start)} ` : ' ',
+    })),
+    ...escapes.map((start) => ({ start, end: start + 1, gap: '' })),
+  ].sort((a, b) => a.start - b.start)
 
-  // Remove time expressions
-  TIME_PATTERNS.forEach((pattern) => {
-    cleaned = cleaned.replace(pattern, '')
+  let title = ''
+  let cursor = 0
+
+  removals.forEach(({ start, end, gap }) => {
+    title += `${input.slice(cursor, start)}${gap}`
+    cursor = end
   })
+  title += input.slice(cursor)
 
   // Clean up extra spaces
-  cleaned = cleaned
-    .trim()
-    .replace(/\s+/g, ' ')
-    .trim()
+  return title.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * The rules of the grammar, tried in this order at every token; the first that reads
+ * a span there takes it
+ */
+const GRAMMAR: GrammarRule[] = [
+  // Links come first so the "#" of a URL or the "@" of an email address is not read as
+  // a tag or mention
+  { field: 'links', read: ({ scan }, at) => readLink(scan, at) },
+
+  // User shortcuts come before the built-in rules so a trigger means what the user
+  // defined, even where a built-in rule would read it differently
+  { field: 'shortcuts', read: readShortcut },
+
+  // Mentions of known people and contexts come before lists, which take any other "@name"
+  { field: 'mentions', read: readMention },
+
+  // Lists come before the rest so a quoted name like @"Plan for tomorrow" is taken whole
+  { field: 'list', read: readListReference },
+
+  // Tags come before priority so "#urgent" stays a tag
+  { field: 'tags', read: readTags },
+  { field: 'priority', read: readPriority },
+
+  // Reminders come before times so "remind me at 4pm" is not the task's own time
+  { field: 'reminders', read: readReminder },
+
+  // Recurrence comes before dates so "every monday" is not read as a one-off monday,
+  // and deadlines so "by friday" is not read as a scheduled friday
+  { field: 'recurrence', read: readRecurrence },
+  { field: 'deadline', read: readDeadline },
+  { field: 'date', read: readScheduledDate },
+  { field: 'time', read: readTime },
+
+  // A time of day the task does not take stays in the title whole, so no date is read
+  // inside it ("por la mañana", "heute abend")
+  {
+    field: null,
+    read: ({ lower, patterns }, at) => {
+      const match = matchAt(patterns.timeWord, lower, at)
+      return match && toSpan(match, null)
+    },
+  },
+
+  // Estimates come after dates so "in 2 hours" is taken as a date
+  { field: 'estimate', read: readEstimate },
+]
+
+/**
+ * The context the grammar reads `scan` in: its lowercase text, the locale's patterns
+ * and the day relative dates count from
+ */
+function createGrammarContext(scan: string, options: ParseOptions): GrammarContext {
+  const locale = getLocalePack(options.locale)
+  return {
+    scan,
+    lower: scan.toLowerCase(),
+    options,
+    locale,
+    patterns: getLocalePatterns(locale),
+    today: getToday(options),
+  }
+}
+
+/**
+ * Read the tokens starting at `starts` from left to right in one pass. The first rule
+ * of GRAMMAR that reads a span at a token consumes exactly that span, and reading goes
+ * on from its end. A field with one value keeps its reading of the lowest rank, the
+ * leftmost of equals; readings that lose stay in the title.
+ */
+function readGrammar(context: GrammarContext, starts: number[]): GrammarMatches {
+  const found: GrammarMatches = {
+    links: [],
+    shortcuts: [],
+    mentions: [],
+    tags: [],
+    reminders: [],
+    list: null,
+    priority: null,
+    recurrence: null,
+    deadline: null,
+    date: null,
+    time: null,
+    estimate: null,
+  }
+  let cursor = 0
+
+  for (const at of starts) {
+    if (at < cursor) continue
+
+    for (const rule of GRAMMAR) {
+      const held: RankedSpan | RankedSpan[] | null = rule.field && found[rule.field]
+      // Nothing can beat a reading of rank 0, so the text is left to the rules after it
+      if (held && !Array.isArray(held) && !held.rank) continue
+
+      const match: RankedSpan | null = rule.read(context, at)
+      if (!match) continue
+      cursor = match.end
+      if (Array.isArray(held)) {
+        held.push(match)
+      } else if (rule.field && (!held || (match.rank ?? 0) < (held.rank ?? 0))) {
+        Object.assign(found, { [rule.field]: match })
+      }
+      break
+    }
+  }
 
-  return cleaned || 'New Task'
+  return found
 }
 
 /**
  * Main parse function
  */
-export function parseTaskInput(input: string): ParsedTask {
-  const tags = extractTags(input)
-  const date = parseDate(input)
-  const time = parseTime(input)
-  const title = cleanInput(input, tags)
+export function parseTaskInput(input: string, options: ParseOptions = {}): ParsedTask {
+  const task = parseTask(input, options)
+  return { ...task, title: task.title || 'New Task' }
+}
 
-  return {
-    title,
-    date,
-    time,
-    tags,
+/**
+ * Parse the input into a task whose title may be empty, as the expansion of a
+ * shortcut like "eod" is
+ */
+function parseTask(input: string, options: ParseOptions): ParsedTask {
+  const tokens: ParsedToken[] = []
+  const literalText = options.plainText
+    ? { ranges: [{ start: 0, end: input.length }], escapes: [] }
+    : findLiteralText(input)
+  let scan = maskRanges(input, [...(options.literalRanges ?? []), ...literalText.ranges])
+
+  // Record a span the grammar read as a token of the task
+  const consume = (
+    kind: ParsedTokenKind,
+    span: Omit<SpanMatch<unknown>, 'value'>,
+    value: string
+  ) => {
+    const text = input.slice(span.start, span.end)
+    tokens.push({
+      kind,
+      start: span.start,
+      end: span.end,
+      text,
+      value,
+      confidence: span.confidence ?? 1,
+      alternatives: span.alternatives ?? [],
+    })
+  }
+
+  // Work logged as already done: "done: called the bank yesterday 3pm"
+  const doneMatch = scan.match(getLocalePatterns(getLocalePack(options.locale)).done)
+  if (doneMatch) {
+    const span = toSpan(doneMatch, null)
+    consume('done', span, 'done')
+    scan = maskRanges(scan, [span])
+  }
+  const completed = Boolean(options.completed || doneMatch)
+  const dateOptions = { ...options, completed }
+
+  // Inline subtasks are parsed on their own, from their text alone, and taken out of
+  // the parent's so its grammar only reads what comes before the colon. A subtask whose
+  // text the user keeps as text stays in the title, without the ";" in front of it.
+  const keptAsText = ({ start, end }: TextRange) => {
+    const textStart = end - input.slice(start + 1, end).trimStart().length
+    return (options.literalRanges ?? []).some(
+      (range) => range.start <= textStart && range.end >= end
+    )
+  }
+  const subtaskList = options.plainText ? [] : findSubtasks(scan)
+  const subtaskSpans = subtaskList.filter((span) => !keptAsText(span))
+  const children = subtaskSpans.map((span) => {
+    const textStart = span.start + 1
+    const child = parseTask(input.slice(textStart, span.end), {
+      ...options,
+      completed,
+      literalRanges: (options.literalRanges ?? [])
+        .filter((range) => range.start >= textStart && range.end <= span.end)
+        .map((range) => ({ start: range.start - textStart, end: range.end - textStart })),
+    })
+    const title = child.title || 'New Task'
+    consume('subtask', span, title)
+    return { ...child, title }
+  })
+  const escapes = [
+    ...literalText.escapes.filter(
+      (index) => !subtaskSpans.some(({ start, end }) => index >= start && index < end)
+    ),
+    ...subtaskList
+      .filter((span) => keptAsText(span) && input[span.start] === ';')
+      .map(({ start }) => start),
+  ]
+  scan = maskRanges(scan, subtaskSpans)
+
+  const found = readGrammar(createGrammarContext(scan, dateOptions), tokenize(scan))
+
+  // Links leave their short label in the title
+  const titleReplacements = new Map<number, string>()
+  const typedLinks = found.links.map((match) => {
+    consume('link', match, match.value.href)
+    titleReplacements.set(match.start, match.value.label)
+    return match.value
+  })
+
+  // Each shortcut expands to a task of its own whose title words replace the trigger and
+  // whose fields are defaults for this one
+  const expansions = found.shortcuts.map((match) => {
+    const text = getShortcutText(match.value)
+    consume('shortcut', match, text)
+    const expansion = parseTask(text, { ...options, literalRanges: [], shortcuts: [] })
+    titleReplacements.set(match.start, expansion.title)
+    return expansion
+  })
+  const fromShortcut = <T>(pick: (task: ParsedTask) => T | null): T | null =>
+    expansions.map(pick).find((value) => value !== null) ?? null
+
+  const contexts = new Set(expansions.flatMap((expansion) => expansion.contexts))
+  const assignees = new Set(expansions.flatMap((expansion) => expansion.assignees))
+  found.mentions.forEach((match) => {
+    const { kind, name } = match.value
+    ;(kind === 'context' ? contexts : assignees).add(name)
+    consume(kind, match, name)
+  })
+
+  const listMatch = found.list
+  if (listMatch) consume('list', listMatch, listMatch.value)
+
+  const tags: Set<string> = new Set(expansions.flatMap((expansion) => expansion.tags))
+  found.tags.forEach((match) => {
+    match.value.forEach((tag) => tags.add(tag))
+    consume('tag', match, match.value.join(', '))
+  })
+
+  const priorityMatch = found.priority
+  if (priorityMatch) consume('priority', priorityMatch, priorityMatch.value)
+
+  const recurrenceMatch = found.recurrence
+  if (recurrenceMatch) {
+    consume('recurrence', recurrenceMatch, formatRecurrence(recurrenceMatch.value, dateOptions))
+  }
+  const recurrence = recurrenceMatch?.value ?? fromShortcut((task) => task.recurrence)
+
+  const deadlineMatch = found.deadline
+  if (deadlineMatch) consume('deadline', deadlineMatch, toDateKey(deadlineMatch.value))
+
+  const dateMatch = found.date
+  if (dateMatch) consume('date', dateMatch, toDateKey(dateMatch.value))
+
+  const timeMatch = found.time
+  if (timeMatch) {
+    const { value, endTime } = timeMatch
+    consume('time', timeMatch, endTime ? `${value}-${endTime}` : value)
+  }
+  const shortcutTime = fromShortcut((task) => task.time)
+  const time =
+    timeMatch?.value ?? dateMatch?.time ?? deadlineMatch?.time ?? shortcutTime ?? null
+  const endTime =
+    timeMatch?.endTime ??
+    (time === shortcutTime ? fromShortcut((task) => task.end && toTimeKey(task.end)) : null)
+
+  // Without an explicit date, a repeating task is first scheduled on its first occurrence,
+  // and a task with only a time of day ("call at 5") is for today
+  const firstOccurrence = recurrence ? getFirstOccurrence(recurrence, getToday(options)) : null
+  const deadline = deadlineMatch?.value ?? fromShortcut((task) => task.deadline)
+  const scheduledDate =
+    dateMatch?.value ??
+    fromShortcut((task) => task.scheduledDate) ??
+    firstOccurrence ??
+    (time && !deadline ? getToday(options) : null)
+
+  // Reminders are recorded once the task's time is known: a bare "remind me" fires when
+  // the task starts, or at DEFAULT_REMINDER_TIME on the task's day (the day it is added
+  // when undated) when it has no time of day
+  const reminders = [
+    ...expansions.flatMap((expansion) => expansion.reminders),
+    ...found.reminders.map((match) => {
+      const reminder =
+        !time && match.value.minutesBefore === 0 ? { time: DEFAULT_REMINDER_TIME } : match.value
+      consume('reminder', match, formatReminder(reminder))
+      return reminder
+    }),
+  ]
+
+  const estimateMatch = found.estimate
+  if (estimateMatch) consume('estimate', estimateMatch, String(estimateMatch.value))
+
+  tokens.sort((a, b) => a.start - b.start)
+
+  // Work already done was finished when the task starts, or now when that is later or unknown
+  const schedule = buildSchedule(scheduledDate ?? deadline, time, endTime)
+  const now = options.now ?? new Date()
+  const completedAt = completed
+    ? new Date(Math.min(schedule.start?.getTime() ?? Infinity, now.getTime()))
+    : null
+
+  const task: ParsedTask = {
+    title: buildTitle(input, tokens, escapes, titleReplacements),
+    date: scheduledDate ?? deadline,
+    scheduledDate,
+    deadline,
+    ...schedule,
+    tags: Array.from(tags),
+    priority: priorityMatch?.value ?? fromShortcut((task) => task.priority),
+    list: listMatch?.value ?? fromShortcut((task) => task.list),
+    contexts: Array.from(contexts),
+    assignees: Array.from(assignees),
+    estimateMinutes: estimateMatch?.value ?? fromShortcut((task) => task.estimateMinutes),
+    recurrence,
+    reminders,
+    links: [...typedLinks, ...expansions.flatMap((expansion) => expansion.links)],
+    completedAt,
+    subtasks: [],
+    tokens,
+    confidence: Math.min(
+      1,
+      ...tokens.map((token) => token.confidence),
+      ...expansions.map((expansion) => expansion.confidence),
+      ...children.map((child) => child.confidence)
+    ),
     rawInput: input,
   }
+  return { ...task, subtasks: children.map((child) => inheritFromParent(child, task)) }
 }
 
 /**
- * Format date for display
+ * Build the start/end fields of a task on `day`, at the HH:MM `time` when given
+ * (all-day otherwise) and ending at `endTime`. An end time at or before the start
+ * time falls on the following day ("10pm-1am").
  */
-export function formatDateForDisplay(date: Date): string {
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
+export function buildSchedule(
+  day: Date | null,
+  time: string | null,
+  endTime: string | null = null
+): Pick<ParsedTask, 'start' | 'end' | 'allDay' | 'time'> {
+  if (!day) return { start: null, end: null, allDay: false, time: null }
 
-  const tomorrow = new Date(today)
-  tomorrow.setDate(tomorrow.getDate() + 1)
+  const at = (hhmm: string) => {
+    const [hours, minutes] = hhmm.split(':').map(Number)
+    const date = new Date(day)
+    date.setHours(hours, minutes, 0, 0)
+    return date
+  }
+
+  if (!time) return { start: at('00:00'), end: null, allDay: true, time: null }
+
+  const start = at(time)
+  const end = endTime ? at(endTime) : null
+  if (end && end <= start) end.setDate(end.getDate() + 1)
+  return { start, end, allDay: false, time }
+}
+
+/**
+ * Format the time span of a timed task: "2:00 PM" or "2:00 PM – 3:00 PM"
+ */
+export function formatTimeRange(start: Date, end: Date | null): string {
+  const startLabel = formatTimeLabel(toTimeKey(start))
+  return end ? `${startLabel} – ${formatTimeLabel(toTimeKey(end))}` : startLabel
+}
+
+/**
+ * Read a whole phrase as a date with the same vocabulary as quick add ("friday",
+ * "next week", "jan 15", "in 3 days"). Null unless the entire phrase is a date.
+ */
+export function parseDatePhrase(phrase: string, options: ParseOptions = {}): Date | null {
+  const text = phrase.trim()
+  const match = readDate(createGrammarContext(text, options), 0)
+  return match && match.end === text.length ? match.value : null
+}
+
+/**
+ * Format date for display in the locale: "Today", "Tomorrow" or "Fri, Oct 23"
+ */
+export function formatDateForDisplay(date: Date, options: DateOptions = {}): string {
+  const locale = getLocalePack(options.locale)
+  const today = getToday(options)
+  const tomorrow = addDays(today, 1)
 
   const targetDate = new Date(date)
   targetDate.setHours(0, 0, 0, 0)
 
   if (targetDate.getTime() === today.getTime()) {
-    return 'Today'
+    return locale.labels.today
   }
   if (targetDate.getTime() === tomorrow.getTime()) {
-    return 'Tomorrow'
+    return locale.labels.tomorrow
   }
 
-  return new Intl.DateTimeFormat('en-US', {
+  return new Intl.DateTimeFormat(locale.intlLocale, {
     weekday: 'short',
     month: 'short',
     day: 'numeric',
@@ -322,67 +1949,121 @@ export function formatDateForDisplay(date: Date): string {
 }
 
 /**
- * Get suggestions for date parsing based on current input
+ * Format a reminder for display: "at start", "1h before", "at 4:00 PM"
  */
-export function getDateSuggestions(input: string): Array<{ text: string; date: Date; icon: string }> {
-  const suggestions: Array<{ text: string; date: Date; icon: string }> = []
-  const lowerInput = input.toLowerCase()
+export function formatReminder(reminder: Reminder): string {
+  if (reminder.time) return `at ${formatTimeLabel(reminder.time)}`
+  const minutes = reminder.minutesBefore ?? 0
+  if (minutes === 0) return 'at start'
+  if (minutes % 1440 === 0) return `${minutes / 1440}d before`
+  return `${formatEstimate(minutes)} before`
+}
 
-  // Today
-  if (/^t?o?d?a?y?$/i.test(input.trim())) {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    suggestions.push({ text: 'Today', date: today, icon: '📅' })
-  }
+/**
+ * Format a number of minutes as a compact duration: "15m", "2h", "1h 30m"
+ */
+export function formatEstimate(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
 
-  // Tomorrow
-  if (/^t?o?m?o?r?r?o?w?$/i.test(input.trim())) {
-    const tomorrow = new Date()
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    tomorrow.setHours(0, 0, 0, 0)
-    suggestions.push({ text: 'Tomorrow', date: tomorrow, icon: '📅' })
+/**
+ * Format a day of the month as an ordinal: 1st, 2nd, 3rd, 15th
+ */
+function formatOrdinal(day: number): string {
+  if (day % 100 >= 11 && day % 100 <= 13) return `${day}th`
+  const suffix = ['th', 'st', 'nd', 'rd'][day % 10] || 'th'
+  return `${day}${suffix}`
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Format a recurrence rule for display: "every Mon, Thu", "monthly on the 1st", with
+ * its end date shown in the locale
+ */
+export function formatRecurrence(rule: RecurrenceRule, options: DateOptions = {}): string {
+  const { frequency, interval, weekdays, dayOfMonth } = rule
+  const units: Record<RecurrenceFrequency, string> = {
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month',
+    yearly: 'year',
   }
 
-  // Next week
-  if (/^n?e?x?t?\.?\s?w?e?e?k?$/i.test(input.trim())) {
-    const nextWeek = new Date()
-    nextWeek.setDate(nextWeek.getDate() + 7)
-    nextWeek.setHours(0, 0, 0, 0)
-    suggestions.push({ text: 'Next Week', date: nextWeek, icon: '📅' })
+  let text: string
+  if (weekdays && weekdays.join() === '1,2,3,4,5' && interval === 1) {
+    text = 'weekdays'
+  } else if (weekdays && weekdays.join() === '0,6' && interval === 1) {
+    text = 'weekends'
+  } else if (weekdays && weekdays.length > 0) {
+    const days = weekdays.map((day) => WEEKDAY_LABELS[day]).join(', ')
+    text = `every ${interval === 2 ? 'other ' : ''}${days}`
+  } else if (interval === 1) {
+    text = frequency
+  } else {
+    text = `every ${interval} ${units[frequency]}s`
   }
 
-  // Always include today and tomorrow as quick suggestions
-  if (input.length > 0) {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const tomorrow = new Date(today)
-    tomorrow.setDate(tomorrow.getDate() + 1)
+  if (dayOfMonth) text += ` on the ${formatOrdinal(dayOfMonth)}`
+  if (rule.until) text += ` until ${formatDateForDisplay(rule.until, options)}`
+  if (rule.count) text += `, ${rule.count} times`
 
-    if (
-      !suggestions.some((s) => s.date.getTime() === today.getTime())
-    ) {
-      suggestions.push({ text: 'Today', date: today, icon: '📅' })
-    }
-    if (
-      !suggestions.some((s) => s.date.getTime() === tomorrow.getTime())
-    ) {
-      suggestions.push({ text: 'Tomorrow', date: tomorrow, icon: '📅' })
-    }
-  }
+  return text
+}
 
-  return suggestions
+/**
+ * The suggestions whose text fuzzy matches the token being typed, best first; all of
+ * them while the token is empty or matches none, so a picker is never left empty
+ */
+function filterSuggestions<T extends { text: string }>(suggestions: T[], token: string): T[] {
+  const query = token.trim()
+  if (!query) return suggestions
+  const matches = suggestions
+    .map((suggestion) => ({ suggestion, score: fuzzyScore(query, suggestion.text) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+  return matches.length > 0 ? matches.map(({ suggestion }) => suggestion) : suggestions
 }
 
 /**
- * Get suggestions for time based on current input
+ * Get date suggestions for the token under the caret ("tom" → Tomorrow)
  */
-export function getTimeSuggestions(input: string): Array<{ text: string; time: string; icon: string }> {
-  return [
-    { text: 'Morning', time: '09:00', icon: '🌅' },
-    { text: 'Afternoon', time: '14:00', icon: '🌤️' },
-    { text: 'Evening', time: '18:00', icon: '🌆' },
-    { text: 'Night', time: '21:00', icon: '🌙' },
-  ]
+export function getDateSuggestions(
+  token: string,
+  options: DateOptions = {}
+): Array<{ text: string; date: Date; icon: string }> {
+  const today = getToday(options)
+
+  // Next week is the day that starts it, as parsed from "next week"
+  const weekStartsOn = options.weekStartsOn ?? 1
+  const nextWeek = addDays(today, (weekStartsOn - today.getDay() + 7) % 7 || 7)
+
+  return filterSuggestions(
+    [
+      { text: 'Today', date: today, icon: '📅' },
+      { text: 'Tomorrow', date: addDays(today, 1), icon: '📅' },
+      { text: 'Next Week', date: nextWeek, icon: '📅' },
+    ],
+    token
+  )
+}
+
+/**
+ * Get time suggestions for the token under the caret ("eve" → Evening)
+ */
+export function getTimeSuggestions(token: string): Array<{ text: string; time: string; icon: string }> {
+  return filterSuggestions(
+    [
+      { text: 'Morning', time: '09:00', icon: '🌅' },
+      { text: 'Afternoon', time: '14:00', icon: '🌤️' },
+      { text: 'Evening', time: '18:00', icon: '🌆' },
+      { text: 'Night', time: '21:00', icon: '🌙' },
+    ],
+    token
+  )
 }
 
 /**
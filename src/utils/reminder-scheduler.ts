@@ -0,0 +1,180 @@
+/**
+ * Reminder Scheduler
+ * Turns task reminders into timers and delivers them as browser notifications,
+ * handing them to an in-app fallback when notifications are unavailable or denied
+ */
+
+import type { Task } from '@/hooks/use-tasks'
+import { formatReminder, type Reminder } from '@/utils/natural-language-parser'
+
+/**
+ * A reminder of a specific task at a specific moment. The key changes whenever the
+ * moment does, so a rescheduled task gets a fresh timer.
+ */
+export interface DueReminder {
+  key: string
+  task: Task
+  reminder: Reminder
+  fireAt: Date
+}
+
+const FIRED_STORAGE_KEY = 'notodo:fired-reminders'
+
+// setTimeout cannot wait longer than this; later reminders are picked up by a later sync
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+// Reminders that came due while the page was closed still fire when this recent
+const MISSED_REMINDER_GRACE = 12 * 60 * 60 * 1000
+
+// The moment at the end of a reminder key (see getDueReminders)
+const KEY_TIME_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/
+
+/**
+ * When a reminder fires: `minutesBefore` the task's start, or at `time` on the task's
+ * day (the day it was created when it has none). Null when there is nothing to count from.
+ */
+export function getReminderTime(
+  reminder: Reminder,
+  task: Pick<Task, 'start' | 'createdAt'>
+): Date | null {
+  if (reminder.time) {
+    const [hours, minutes] = reminder.time.split(':').map(Number)
+    const date = new Date(task.start ?? task.createdAt)
+    date.setHours(hours, minutes, 0, 0)
+    return date
+  }
+  if (!task.start) return null
+  return new Date(new Date(task.start).getTime() - (reminder.minutesBefore ?? 0) * 60 * 1000)
+}
+
+/**
+ * Every reminder of the open tasks, with the moment it fires
+ */
+export function getDueReminders(tasks: Task[]): DueReminder[] {
+  return tasks
+    .filter((task) => !task.completed)
+    .flatMap((task) =>
+      task.reminders.flatMap((reminder, index) => {
+        const fireAt = getReminderTime(reminder, task)
+        if (!fireAt) return []
+        return [{ key: `${task.id}:${index}:${fireAt.toISOString()}`, task, reminder, fireAt }]
+      })
+    )
+}
+
+/**
+ * Ask for notification permission once, so reminders can reach the user outside the page
+ */
+export function requestReminderPermission(): void {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch((error) => {
+      console.error('Failed to request notification permission:', error)
+    })
+  }
+}
+
+/**
+ * Show a reminder as a browser notification, or pass it to `fallback` when
+ * notifications are unsupported or not allowed
+ */
+export function deliverReminder(due: DueReminder, fallback: (due: DueReminder) => void): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') {
+    fallback(due)
+    return
+  }
+
+  try {
+    new Notification(due.task.title, { body: `🔔 ${formatReminder(due.reminder)}`, tag: due.key })
+  } catch (error) {
+    // Some browsers only allow notifications from a service worker
+    console.error('Failed to show notification:', error)
+    fallback(due)
+  }
+}
+
+function loadFiredKeys(storageKey: string): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(storageKey) ?? '[]'))
+  } catch (error) {
+    console.error('Failed to load fired reminders from localStorage:', error)
+    return new Set()
+  }
+}
+
+function saveFiredKeys(storageKey: string, keys: Set<string>): void {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(Array.from(keys)))
+  } catch (error) {
+    console.error('Failed to save fired reminders to localStorage:', error)
+  }
+}
+
+/**
+ * Create a scheduler that keeps one timer per pending reminder. Fired reminders
+ * are remembered in localStorage under `storageKey` so a reload neither repeats nor
+ * loses them; with a null key they are only remembered while the scheduler runs.
+ */
+export function createReminderScheduler(
+  onFire: (due: DueReminder) => void,
+  storageKey: string | null = FIRED_STORAGE_KEY
+) {
+  const timers = new Map<string, ReturnType<typeof setTimeout>>()
+  const fired = storageKey ? loadFiredKeys(storageKey) : new Set<string>()
+  let pending = new Map<string, DueReminder>()
+
+  const save = () => {
+    if (storageKey) saveFiredKeys(storageKey, fired)
+  }
+
+  const fire = (key: string) => {
+    const due = pending.get(key)
+    timers.delete(key)
+    if (!due) return
+    fired.add(key)
+    save()
+    onFire(due)
+  }
+
+  return {
+    /**
+     * Bring the timers in line with the tasks: reminders of completed or deleted
+     * tasks are cancelled, moved ones are rescheduled, new ones are added
+     */
+    sync(tasks: Task[]): void {
+      pending = new Map(getDueReminders(tasks).map((due) => [due.key, due]))
+
+      timers.forEach((timer, key) => {
+        if (pending.has(key)) return
+        clearTimeout(timer)
+        timers.delete(key)
+      })
+
+      // Forget fired reminders too old to fire again so the stored list stays small.
+      // A reminder missing from `tasks` is kept: they may not be the tasks it was
+      // stored for, and it must not fire again when those are synced.
+      const now = Date.now()
+      const firedCount = fired.size
+      fired.forEach((key) => {
+        const fireAt = Date.parse(key.match(KEY_TIME_PATTERN)?.[0] ?? '')
+        if (!(fireAt >= now - MISSED_REMINDER_GRACE)) fired.delete(key)
+      })
+      if (fired.size !== firedCount) save()
+
+      pending.forEach((due, key) => {
+        if (timers.has(key) || fired.has(key)) return
+        const delay = due.fireAt.getTime() - now
+        if (delay < -MISSED_REMINDER_GRACE || delay > MAX_TIMER_DELAY) return
+        timers.set(
+          key,
+          setTimeout(() => fire(key), Math.max(0, delay))
+        )
+      })
+    },
+
+    /** Cancel every timer */
+    stop(): void {
+      timers.forEach((timer) => clearTimeout(timer))
+      timers.clear()
+    },
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Search Query Parser
+ * Parses task search queries like `tag:work is:open due:<friday list:Groceries
+ * priority:high "exact phrase" -tag:someday` and matches tasks against them
+ */
+
+import type { Task, TaskList } from '@/hooks/use-tasks'
+import { isPastDeadline } from '@/hooks/use-tasks'
+import {
+  parseDatePhrase,
+  type DateOptions,
+  type TaskPriority,
+} from '@/utils/natural-language-parser'
+
+export type SearchField = 'text' | 'tag' | 'is' | 'has' | 'due' | 'date' | 'list' | 'priority'
+
+export type SearchOperator = '=' | '<' | '<=' | '>' | '>='
+
+/**
+ * One condition of a query. Every term must hold for a task to match;
+ * `negated` terms ("-tag:someday") must not.
+ */
+export interface SearchTerm {
+  field: SearchField
+  operator: SearchOperator
+  value: string
+  negated: boolean
+  /** The start of the day a `due:` or `date:` value resolves to */
+  date?: Date
+  /** Offsets of the term in the query */
+  start: number
+  end: number
+}
+
+export interface SearchQuery {
+  terms: SearchTerm[]
+  /** Terms that could not be understood, e.g. an unknown date or `is:` state */
+  errors: string[]
+}
+
+// Other names users reach for, mapped to the field they mean
+const FIELD_ALIASES: Record<string, SearchField> = {
+  tag: 'tag',
+  is: 'is',
+  has: 'has',
+  due: 'due',
+  deadline: 'due',
+  date: 'date',
+  on: 'date',
+  scheduled: 'date',
+  list: 'list',
+  priority: 'priority',
+  p: 'priority',
+}
+
+const IS_VALUES = ['open', 'done', 'completed', 'overdue', 'recurring']
+
+const HAS_VALUES = ['date', 'time', 'deadline', 'tags', 'list', 'reminder', 'estimate']
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { low: 1, medium: 2, high: 3 }
+
+/**
+ * Split a query into terms. Bare words and "quoted phrases" search the title;
+ * `field:value` terms filter by tag, state, dates, list or priority. Values may be
+ * quoted (`list:"Side project"`, `due:<"end of month"`), and date values use the
+ * quick-add vocabulary ("friday", "next week", "jan 15").
+ */
+export function parseSearchQuery(query: string, options: DateOptions = {}): SearchQuery {
+  const terms: SearchTerm[] = []
+  const errors: string[] = []
+  const pattern = /(-?)(?:([a-z]+):(<=|>=|<|>|=)?)?(?:"([^"]*)"?|(\S+))/gi
+
+  for (const match of query.matchAll(pattern)) {
+    const [text, minus, name, operator, quoted, word] = match
+    const start = match.index ?? 0
+    const value = (quoted ?? word ?? '').trim()
+    const field = name ? FIELD_ALIASES[name.toLowerCase()] : 'text'
+
+    // An unknown field name ("foo:bar") is just text to look for
+    if (!field) {
+      terms.push({
+        field: 'text',
+        operator: '=',
+        value: text.replace(/^-/, ''),
+        negated: minus === '-',
+        start,
+        end: start + text.length,
+      })
+      continue
+    }
+    if (!value) continue
+
+    const term: SearchTerm = {
+      field,
+      operator: (operator as SearchOperator | undefined) ?? '=',
+      value: field === 'tag' ? value.replace(/^#/, '').toLowerCase() : value,
+      negated: minus === '-',
+      start,
+      end: start + text.length,
+    }
+
+    if (field === 'due' || field === 'date') {
+      // Hyphens stand in for spaces in unquoted phrases: due:<next-friday
+      const date =
+        parseDatePhrase(value, options) ?? parseDatePhrase(value.replace(/-/g, ' '), options)
+      if (!date) {
+        errors.push(`Unknown date "${value}"`)
+        continue
+      }
+      term.date = date
+    } else if (field === 'is' && !IS_VALUES.includes(value.toLowerCase())) {
+      errors.push(`Unknown state "is:${value}" (try ${IS_VALUES.join(', ')})`)
+      continue
+    } else if (field === 'has' && !HAS_VALUES.includes(value.toLowerCase())) {
+      errors.push(`Unknown field "has:${value}" (try ${HAS_VALUES.join(', ')})`)
+      continue
+    } else if (field === 'priority' && !(value.toLowerCase() in PRIORITY_RANK)) {
+      errors.push(`Unknown priority "${value}" (try low, medium, high)`)
+      continue
+    }
+
+    terms.push(term)
+  }
+
+  return { terms, errors }
+}
+
+/**
+ * Whether a task satisfies every term of the query. `lists` resolves the list a
+ * task was filed under when it has no list name of its own.
+ */
+export function matchesSearchQuery(
+  task: Task,
+  query: SearchQuery,
+  lists: TaskList[] = []
+): boolean {
+  return query.terms.every((term) => matchesTerm(task, term, lists) !== term.negated)
+}
+
+/**
+ * Tasks matching a query string, in their original order
+ */
+export function searchTasks(
+  tasks: Task[],
+  query: string,
+  lists: TaskList[] = [],
+  options: DateOptions = {}
+): Task[] {
+  const parsed = parseSearchQuery(query, options)
+  return tasks.filter((task) => matchesSearchQuery(task, parsed, lists))
+}
+
+function matchesTerm(task: Task, term: SearchTerm, lists: TaskList[]): boolean {
+  const value = term.value.toLowerCase()
+
+  switch (term.field) {
+    case 'text':
+      return (
+        task.title.toLowerCase().includes(value) ||
+        !!task.description?.toLowerCase().includes(value)
+      )
+    case 'tag':
+      return task.tags.some((tag) => tag.toLowerCase() === value)
+    case 'is':
+      if (value === 'open') return !task.completed
+      if (value === 'overdue') return isPastDeadline(task)
+      if (value === 'recurring') return task.recurrence !== null
+      return task.completed
+    case 'has':
+      return hasField(task, value)
+    case 'due':
+      return compareDay(task.deadline, term)
+    case 'date':
+      return compareDay(task.scheduledDate, term)
+    case 'list': {
+      const listName = lists.find((list) => list.id === task.listId)?.name ?? task.list
+      return !!listName && listName.toLowerCase().startsWith(value)
+    }
+    case 'priority':
+      return (
+        task.priority !== null &&
+        compare(PRIORITY_RANK[task.priority], PRIORITY_RANK[value as TaskPriority], term.operator)
+      )
+  }
+}
+
+function hasField(task: Task, field: string): boolean {
+  switch (field) {
+    case 'date':
+      return task.scheduledDate !== null
+    case 'time':
+      return task.time !== null
+    case 'deadline':
+      return task.deadline !== null
+    case 'tags':
+      return task.tags.length > 0
+    case 'list':
+      return !!task.listId || task.list !== null
+    case 'reminder':
+      return task.reminders.length > 0
+    default:
+      return task.estimateMinutes !== null
+  }
+}
+
+/**
+ * Compare the calendar day of a task date with the day of a term; tasks without
+ * that date never match
+ */
+function compareDay(date: Date | null, term: SearchTerm): boolean {
+  if (!date || !term.date) return false
+  const day = new Date(date)
+  day.setHours(0, 0, 0, 0)
+  return compare(day.getTime(), term.date.getTime(), term.operator)
+}
+
+function compare(a: number, b: number, operator: SearchOperator): boolean {
+  if (operator === '<') return a < b
+  if (operator === '<=') return a <= b
+  if (operator === '>') return a > b
+  if (operator === '>=') return a >= b
+  return a === b
+}
@@ -0,0 +1,217 @@
+/**
+ * Slash Commands
+ * Turns the quick-add box into a command line for existing tasks: "/done buy milk",
+ * "/move report +Work", "/tag report #urgent", "/snooze report 2d", "/delete report",
+ * "/list new Travel". Tasks are picked by fuzzy title match; arguments use the
+ * quick-add syntax read by parseTaskInput.
+ */
+
+import type { Task, TaskList } from '@/hooks/use-tasks'
+import { findListByName } from '@/hooks/use-tasks'
+import { fuzzyFind } from '@/utils/fuzzy-match'
+import {
+  buildSchedule,
+  formatDateForDisplay,
+  formatTimeRange,
+  getToday,
+  parseTaskInput,
+  type ParseOptions,
+} from '@/utils/natural-language-parser'
+
+export type SlashCommandName = 'done' | 'move' | 'tag' | 'snooze' | 'delete' | 'list'
+
+/**
+ * What running a command does, for useTasks to carry out. `listId` is null when
+ * a move goes to a list that does not exist yet; `tags` is the task's full new set.
+ */
+export type SlashCommandAction =
+  | { kind: 'complete'; task: Task }
+  | { kind: 'move'; task: Task; listName: string; listId: string | null }
+  | { kind: 'tag'; task: Task; tags: string[] }
+  | { kind: 'snooze'; task: Task; updates: Partial<Task> }
+  | { kind: 'delete'; task: Task }
+  | { kind: 'createList'; name: string }
+
+export interface SlashCommand {
+  /** The command meant, null when the name typed is unknown */
+  name: SlashCommandName | null
+  /** What the command will do, null while it cannot run */
+  action: SlashCommandAction | null
+  /** Why it cannot run: an unknown command, a missing argument, no matching task */
+  error: string | null
+  /** Other tasks the query matched, best first, after the one acted on */
+  otherMatches: Task[]
+}
+
+export const SLASH_COMMANDS: Array<{ name: SlashCommandName; usage: string; description: string }> =
+  [
+    { name: 'done', usage: '/done buy milk', description: 'Complete an open task' },
+    { name: 'move', usage: '/move report +Work', description: 'Move a task to a list' },
+    { name: 'tag', usage: '/tag report #urgent', description: 'Add tags to a task' },
+    {
+      name: 'snooze',
+      usage: '/snooze report 2d',
+      description: 'Push a task back by 30m, 2h, 2d, 1w or to a date',
+    },
+    { name: 'delete', usage: '/delete report', description: 'Delete a task' },
+    { name: 'list', usage: '/list new Travel', description: 'Create a list' },
+  ]
+
+// Other names users reach for, mapped to the command they mean
+const COMMAND_ALIASES: Record<string, SlashCommandName> = {
+  done: 'done',
+  complete: 'done',
+  move: 'move',
+  mv: 'move',
+  tag: 'tag',
+  snooze: 'snooze',
+  defer: 'snooze',
+  delete: 'delete',
+  rm: 'delete',
+  list: 'list',
+}
+
+// A duration at the end of a /snooze: "30m", "2h", "2d", "1 week"
+const SNOOZE_PATTERN = /(?:^|\s)(\d+)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|wks?|weeks?)\s*$/i
+
+/**
+ * Whether the input is a command rather than a task: it starts with "/" and a letter
+ */
+export function isSlashCommand(input: string): boolean {
+  return /^\s*\/\p{L}/u.test(input)
+}
+
+/**
+ * Read a slash command and resolve what it acts on. Commands that name a task take
+ * the best fuzzy match among the open tasks (any task for /delete).
+ */
+export function parseSlashCommand(
+  input: string,
+  tasks: Task[],
+  lists: TaskList[] = [],
+  options: ParseOptions = {}
+): SlashCommand {
+  const [, typed = '', rest = ''] = input.trim().match(/^\/(\S*)\s*(.*)$/s) ?? []
+  const command = COMMAND_ALIASES[typed.toLowerCase()] ?? null
+  const result = (
+    action: SlashCommandAction | null,
+    error: string | null,
+    otherMatches: Task[] = []
+  ): SlashCommand => ({ name: command, action, error, otherMatches })
+  if (!command) return result(null, `Unknown command "/${typed}"`)
+
+  if (command === 'list') {
+    const [, listName = ''] = rest.match(/^new\s+(.+)$/i) ?? []
+    const trimmed = listName.trim().replace(/^\+/, '')
+    if (!trimmed) return result(null, 'Name the list: /list new Travel')
+    if (lists.some((list) => list.name.toLowerCase() === trimmed.toLowerCase())) {
+      return result(null, `List "${trimmed}" already exists`)
+    }
+    return result({ kind: 'createList', name: trimmed }, null)
+  }
+
+  // The rest of the arguments are read like quick-add text, leaving the task's name as the title
+  const snooze = command === 'snooze' ? rest.match(SNOOZE_PATTERN) : null
+  const argument = snooze ? rest.slice(0, snooze.index) : rest
+  const parsed = parseTaskInput(argument, { ...options, shortcuts: [] })
+  const query = command === 'done' || command === 'delete' ? argument.trim() : parsed.title
+  if (!argument.trim() || parsed.title === 'New Task') {
+    return result(null, `Name the task: ${SLASH_COMMANDS.find((c) => c.name === command)?.usage}`)
+  }
+
+  const candidates = command === 'delete' ? tasks : tasks.filter((task) => !task.completed)
+  const [task, ...otherMatches] = fuzzyFind(query, candidates, (candidate) => candidate.title)
+  if (!task) return result(null, `No ${command === 'delete' ? '' : 'open '}task matches "${query}"`)
+
+  switch (command) {
+    case 'done':
+      return result({ kind: 'complete', task }, null, otherMatches)
+    case 'delete':
+      return result({ kind: 'delete', task }, null, otherMatches)
+    case 'move': {
+      if (!parsed.list) return result(null, 'Name the list: /move report +Work', otherMatches)
+      const list = findListByName(lists, parsed.list)
+      const action = { kind: 'move' as const, task, listName: list?.name ?? parsed.list }
+      return result({ ...action, listId: list?.id ?? null }, null, otherMatches)
+    }
+    case 'tag': {
+      if (parsed.tags.length === 0)
+        return result(null, 'Name the tags: /tag report #urgent', otherMatches)
+      const tags = Array.from(new Set([...task.tags, ...parsed.tags]))
+      return result({ kind: 'tag', task, tags }, null, otherMatches)
+    }
+    case 'snooze': {
+      const updates = snooze
+        ? snoozeBy(task, parseInt(snooze[1], 10), snooze[2].toLowerCase(), options)
+        : snoozeTo(task, parsed.scheduledDate ?? parsed.deadline, parsed.time)
+      if (!updates) return result(null, 'Say how long: /snooze report 2d, or a date', otherMatches)
+      return result({ kind: 'snooze', task, updates }, null, otherMatches)
+    }
+  }
+}
+
+/**
+ * The schedule of a task pushed back by an amount of time. Days and weeks count from
+ * the task's day (today when it has none or is overdue) and keep its time of day;
+ * hours and minutes move its start from now or, when later, its current start.
+ * A time range keeps its length.
+ */
+function snoozeBy(task: Task, amount: number, unit: string, options: ParseOptions): Partial<Task> {
+  const today = getToday(options)
+  const start = task.start ? new Date(task.start) : null
+  const length = start && task.end ? new Date(task.end).getTime() - start.getTime() : null
+
+  if (unit.startsWith('d') || unit.startsWith('w')) {
+    const from = start && start > today ? new Date(start) : today
+    from.setHours(0, 0, 0, 0)
+    from.setDate(from.getDate() + (unit.startsWith('w') ? amount * 7 : amount))
+    const schedule = buildSchedule(from, task.time)
+    const end =
+      schedule.start && length !== null ? new Date(schedule.start.getTime() + length) : null
+    return { date: from, scheduledDate: from, ...schedule, end }
+  }
+
+  const now = options.now ?? new Date()
+  const minutes = unit.startsWith('h') ? amount * 60 : amount
+  const from = start && start > now ? start : now
+  const moved = new Date(from.getTime() + minutes * 60 * 1000)
+  const day = new Date(moved)
+  day.setHours(0, 0, 0, 0)
+  const time = `${String(moved.getHours()).padStart(2, '0')}:${String(moved.getMinutes()).padStart(2, '0')}`
+  const end = length !== null ? new Date(moved.getTime() + length) : null
+  return { date: day, scheduledDate: day, ...buildSchedule(day, time), end }
+}
+
+/**
+ * The schedule of a task moved to a date, at the time given or its own time of day
+ */
+function snoozeTo(task: Task, day: Date | null, time: string | null): Partial<Task> | null {
+  if (!day) return null
+  return { date: day, scheduledDate: day, ...buildSchedule(day, time ?? task.time) }
+}
+
+/**
+ * One line for the confirmation preview: 'Complete "Buy milk"', 'Move "Report" to Work (new list)'
+ */
+export function describeSlashCommand(
+  action: SlashCommandAction,
+  options: ParseOptions = {}
+): string {
+  switch (action.kind) {
+    case 'complete':
+      return `Complete "${action.task.title}"`
+    case 'move':
+      return `Move "${action.task.title}" to ${action.listName}${action.listId ? '' : ' (new list)'}`
+    case 'tag':
+      return `Tag "${action.task.title}" ${action.tags.map((tag) => `#${tag}`).join(' ')}`
+    case 'snooze': {
+      const { date, start, end, allDay } = action.updates
+      const day = date ? formatDateForDisplay(date, options) : 'later'
+      return `Snooze "${action.task.title}" to ${day}${start && !allDay ? `, ${formatTimeRange(start, end ?? null)}` : ''}`
+    }
+    case 'delete':
+      return `Delete "${action.task.title}"`
+    case 'createList':
+      return `Create list "${action.name}"`
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Tag Suggestions
+ * Ranks the user's own tags by how often and how recently they are used, and by
+ * how often they go with similar titles and with the tags already picked
+ */
+
+import type { Task } from '@/hooks/use-tasks'
+import { getCommonTags } from '@/utils/natural-language-parser'
+
+export interface TagSuggestion {
+  text: string
+  icon: string
+}
+
+export interface TagSuggestionContext {
+  /** Title typed so far; tags of tasks with similar titles rank higher */
+  title?: string
+  /** Tags already on the task; left out, and their usual companions rank higher */
+  selected?: string[]
+  now?: Date
+  /** At most this many suggestions; all of them when omitted */
+  limit?: number
+}
+
+// A use this many days old counts half as much as one from today
+const RECENCY_HALF_LIFE_DAYS = 30
+
+// How much a fully similar title or a companion tag weighs against plain usage
+const TITLE_WEIGHT = 3
+const COMPANION_WEIGHT = 2
+
+// Words that say nothing about what a task is about (shorter words are skipped anyway)
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'into', 'about', 'this', 'that'])
+
+/**
+ * Suggest tags for a task being captured. Without any tagged tasks to learn
+ * from, this falls back to the common starter tags.
+ */
+export function suggestTags(
+  history: Array<Pick<Task, 'title' | 'tags' | 'createdAt'>>,
+  context: TagSuggestionContext = {}
+): TagSuggestion[] {
+  const tagged = history.filter((task) => task.tags.length > 0)
+  const selected = new Set(context.selected ?? [])
+  const icons = new Map(getCommonTags().map((tag) => [tag.text, tag.icon]))
+
+  if (tagged.length === 0) {
+    return getCommonTags()
+      .filter((tag) => !selected.has(tag.text))
+      .slice(0, context.limit)
+  }
+
+  const now = (context.now ?? new Date()).getTime()
+  const titleWords = getTitleWords(context.title ?? '')
+  const scores = new Map<string, number>()
+
+  tagged.forEach((task) => {
+    const ageDays = Math.max(0, now - new Date(task.createdAt).getTime()) / 86_400_000
+    const recency = 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS)
+    const similarity = getSimilarity(titleWords, getTitleWords(task.title))
+    const companions = task.tags.filter((tag) => selected.has(tag)).length
+
+    const weight = recency * (1 + TITLE_WEIGHT * similarity + COMPANION_WEIGHT * companions)
+    task.tags.forEach((tag) => {
+      if (!selected.has(tag)) scores.set(tag, (scores.get(tag) ?? 0) + weight)
+    })
+  })
+
+  return Array.from(scores)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, context.limit)
+    .map(([text]) => ({ text, icon: icons.get(text) ?? '🏷️' }))
+}
+
+/**
+ * Lowercase content words of a title, with simple plurals and "-ing" forms folded
+ * so "deploys" and "deploying" match "deploy"
+ */
+function getTitleWords(title: string): Set<string> {
+  const words = title.toLowerCase().match(/[a-z0-9]+/g) ?? []
+  return new Set(
+    words
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+      .map((word) => word.replace(/(?:ing|(?<!s)s)$/, ''))
+  )
+}
+
+/**
+ * Share of the typed title's words that the other title also has (0 to 1)
+ */
+function getSimilarity(typed: Set<string>, other: Set<string>): number {
+  if (typed.size === 0) return 0
+  let shared = 0
+  typed.forEach((word) => {
+    if (other.has(word)) shared++
+  })
+  return shared / typed.size
+}
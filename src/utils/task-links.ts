@@ -0,0 +1,148 @@
+/**
+ * Task Links
+ * Finds URLs, email addresses and phone numbers in task text and gives each a
+ * short label for the title ("PR #42"). Labels come from the text alone; links
+ * are never fetched.
+ */
+
+export type TaskLinkKind = 'url' | 'email' | 'phone'
+
+export interface TaskLink {
+  kind: TaskLinkKind
+  /** What opens the link: an http(s) URL, mailto: or tel: */
+  href: string
+  /** Short name shown in the title and on the chip: "PR #42", "docs.google.com" */
+  label: string
+  /** The link as typed */
+  text: string
+}
+
+export interface LinkMatch {
+  start: number
+  end: number
+  value: TaskLink
+}
+
+// Punctuation that ends a sentence rather than a URL: "see https://example.com."
+const TRAILING_PUNCTUATION = /[.,;:!?'"”’)\]]+$/
+
+// Links are read at one offset at a time (see readLink), so their patterns are sticky
+const URL_PATTERN = /(?<![\w@/])(?:https?:\/\/|www\.)[^\s<>"]+/iy
+
+const EMAIL_PATTERN =
+  /(?<![\w.+-])(?:mailto:)?[\w.+-]+@[a-z\d-]+(?:\.[a-z\d-]+)*\.[a-z]{2,}(?![\w@-])/iy
+
+// "+1 555 123 4567", "(555) 123-4567", "1-800-555-1234", "030.1234.5678", "tel:+4930123456"
+const PHONE_PATTERN =
+  /(?<![\w+/.:-])(?:tel:\+?\d+|(?:tel:)?(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)\s?)?\d{1,4}(?:[\s.-]\d{2,5}){1,3})(?![\w/]|[.:-]\d)/y
+
+/**
+ * Short labels for links to well-known sites, tried in order against the host
+ * and path; everything else is labelled with its host
+ */
+const SITE_LABELS: Array<{
+  host: RegExp
+  path: RegExp
+  label: (match: RegExpMatchArray) => string
+}> = [
+  { host: /^github\.com$/, path: /^\/[^/]+\/[^/]+\/pull\/(\d+)/, label: (m) => `PR #${m[1]}` },
+  { host: /^github\.com$/, path: /^\/[^/]+\/[^/]+\/issues\/(\d+)/, label: (m) => `Issue #${m[1]}` },
+  {
+    host: /^github\.com$/,
+    path: /^\/[^/]+\/[^/]+\/commit\/([\da-f]{7})/,
+    label: (m) => `Commit ${m[1]}`,
+  },
+  { host: /^gitlab\.com$/, path: /\/merge_requests\/(\d+)/, label: (m) => `MR !${m[1]}` },
+  { host: /^gitlab\.com$/, path: /\/issues\/(\d+)/, label: (m) => `Issue #${m[1]}` },
+  { host: /\.atlassian\.net$/, path: /\/browse\/([A-Z][A-Z\d]+-\d+)/, label: (m) => m[1] },
+  { host: /^docs\.google\.com$/, path: /^\/document\//, label: () => 'Google Doc' },
+  { host: /^docs\.google\.com$/, path: /^\/spreadsheets\//, label: () => 'Google Sheet' },
+  { host: /^docs\.google\.com$/, path: /^\/presentation\//, label: () => 'Google Slides' },
+  { host: /^(?:www\.)?figma\.com$/, path: /^\/(?:file|design)\//, label: () => 'Figma file' },
+  { host: /^(?:www\.)?youtube\.com$|^youtu\.be$/, path: /./, label: () => 'YouTube video' },
+]
+
+/**
+ * The short label of a URL: "PR #42" for a GitHub pull request, the host
+ * without "www." for sites with no label of their own
+ */
+export function getLinkLabel(href: string): string {
+  let url: URL
+  try {
+    url = new URL(href)
+  } catch {
+    return href
+  }
+  const host = url.hostname.toLowerCase()
+  for (const site of SITE_LABELS) {
+    const match = site.host.test(host) ? url.pathname.match(site.path) : null
+    if (match) return site.label(match)
+  }
+  return host.replace(/^www\./, '')
+}
+
+/**
+ * Whether digits separated like a phone number are really a date ("2026-10-19",
+ * "19.10.2026") or an amount with thousands separators ("1.500.000")
+ */
+function looksLikeNumber(text: string): boolean {
+  return /^\d{4}[.-]\d{1,2}[.-]\d{1,2}$|^\d{1,2}[.-]\d{1,2}[.-]\d{2,4}$|^\d{1,3}(?:\.\d{3})+$/.test(
+    text
+  )
+}
+
+/**
+ * Match a sticky pattern exactly at `at`
+ */
+function matchAt(pattern: RegExp, input: string, at: number): RegExpExecArray | null {
+  pattern.lastIndex = at
+  return pattern.exec(input)
+}
+
+/**
+ * Read the URL, email address or phone number starting exactly at `at`, or null.
+ * URLs are tried first so an address or number inside one stays part of it. A phone
+ * number needs 7 to 15 digits, and digit groups split by spaces alone only count
+ * after a country code or area code in parentheses, so "100 200 300" stays text.
+ */
+export function readLink(input: string, at: number): LinkMatch | null {
+  const urlMatch = matchAt(URL_PATTERN, input, at)
+  if (urlMatch) {
+    const text = urlMatch[0].replace(TRAILING_PUNCTUATION, '')
+    const href = /^www\./i.test(text) ? `https://${text}` : text
+    return {
+      start: at,
+      end: at + text.length,
+      value: { kind: 'url', href, label: getLinkLabel(href), text },
+    }
+  }
+
+  const emailMatch = matchAt(EMAIL_PATTERN, input, at)
+  if (emailMatch) {
+    const address = emailMatch[0].replace(/^mailto:/i, '')
+    return {
+      start: at,
+      end: at + emailMatch[0].length,
+      value: { kind: 'email', href: `mailto:${address}`, label: address, text: emailMatch[0] },
+    }
+  }
+
+  const phoneMatch = matchAt(PHONE_PATTERN, input, at)
+  if (!phoneMatch) return null
+  const text = phoneMatch[0]
+  const number = text.replace(/^tel:/i, '')
+  const digits = number.replace(/\D/g, '')
+  const prefixed = /^\+|^\(|^tel:/i.test(text)
+  if (digits.length < 7 || digits.length > 15 || looksLikeNumber(number)) return null
+  if (!prefixed && /\s/.test(number)) return null
+  return {
+    start: at,
+    end: at + text.length,
+    value: {
+      kind: 'phone',
+      href: `tel:${number.startsWith('+') ? '+' : ''}${digits}`,
+      label: number,
+      text,
+    },
+  }
+}